@@ -1,6 +1,15 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 
-export async function GET() {
+// Query params forwarded unchanged to ElevenLabs' list endpoint
+const PASSTHROUGH_PARAMS = [
+  'cursor',
+  'page_size',
+  'agent_id',
+  'call_start_before_unix',
+  'call_start_after_unix',
+];
+
+export async function GET(request: NextRequest) {
   try {
     const apiKey = process.env.ELEVENLABS_API_KEY;
     
@@ -11,7 +20,15 @@ export async function GET() {
       );
     }
 
-    const response = await fetch('https://api.elevenlabs.io/v1/convai/conversations?summary_mode=include', {
+    const params = new URLSearchParams({ summary_mode: 'include' });
+    for (const name of PASSTHROUGH_PARAMS) {
+      const value = request.nextUrl.searchParams.get(name);
+      if (value) {
+        params.set(name, value);
+      }
+    }
+
+    const response = await fetch(`https://api.elevenlabs.io/v1/convai/conversations?${params}`, {
       headers: {
         'xi-api-key': apiKey,
       },
@@ -30,4 +47,4 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 
 interface TranscriptTurn {
   role: 'agent' | 'user';
@@ -50,11 +50,34 @@ interface ConversationsResponse {
   has_more: boolean;
 }
 
+async function fetchConversationsPage(cursor?: string | null): Promise<ConversationsResponse> {
+  const params = new URLSearchParams();
+  if (cursor) {
+    params.set('cursor', cursor);
+  }
+  const response = await fetch(`/api/conversations?${params}`);
+  if (!response.ok) {
+    throw new Error('Failed to fetch conversations');
+  }
+  return response.json();
+}
+
+// Append a page to the list, skipping anything already loaded, newest first
+function mergeConversations(existing: Conversation[], incoming: Conversation[]) {
+  const loadedIds = new Set(existing.map(conv => conv.conversation_id));
+  return [...existing, ...incoming.filter(conv => !loadedIds.has(conv.conversation_id))].sort(
+    (a, b) => b.start_time_unix_secs - a.start_time_unix_secs
+  );
+}
+
 export default function Dashboard() {
   const [conversations, setConversations] = useState<Conversation[]>([]);
   const [filteredConversations, setFilteredConversations] = useState<Conversation[]>([]);
   const [viewMode, setViewMode] = useState<'last' | 'all'>('last');
   const [loading, setLoading] = useState(true);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const loadingMoreRef = useRef(false);
   const [error, setError] = useState<string | null>(null);
   const [, setCopyStatus] = useState<string | null>(null);
   const [expandedQA, setExpandedQA] = useState<string | null>(null);
@@ -135,16 +158,11 @@ export default function Dashboard() {
 
   const fetchConversations = async () => {
     try {
-      const response = await fetch('/api/conversations');
-      if (!response.ok) {
-        throw new Error('Failed to fetch conversations');
-      }
-      const data: ConversationsResponse = await response.json();
-      const sortedConversations = data.conversations.sort(
-        (a, b) => b.start_time_unix_secs - a.start_time_unix_secs
-      );
+      const data = await fetchConversationsPage();
+      const sortedConversations = mergeConversations([], data.conversations);
       setConversations(sortedConversations);
       setFilteredConversations(sortedConversations);
+      setNextCursor(data.has_more ? data.next_cursor : null);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred');
     } finally {
@@ -152,7 +170,37 @@ export default function Dashboard() {
     }
   };
 
+  // Follow next_cursor until ElevenLabs reports no more pages (or just one page)
+  const loadMoreConversations = useCallback(async (allPages: boolean) => {
+    if (!nextCursor || loadingMoreRef.current) return;
 
+    loadingMoreRef.current = true;
+    setLoadingMore(true);
+    let cursor: string | null = nextCursor;
+    try {
+      do {
+        const data = await fetchConversationsPage(cursor);
+        setConversations(prev => mergeConversations(prev, data.conversations));
+        cursor = data.has_more ? data.next_cursor : null;
+      } while (allPages && cursor);
+    } catch (err) {
+      console.error('Error loading more conversations:', err);
+    } finally {
+      setNextCursor(cursor);
+      loadingMoreRef.current = false;
+      setLoadingMore(false);
+    }
+  }, [nextCursor]);
+
+  const hasActiveFilters = searchTerm !== '' || statusFilter !== 'all' || agentFilter !== 'all' ||
+    successFilter !== 'all' || dateFilter !== 'all';
+
+  // Filters have to see every conversation, so pull in the remaining pages once any is set
+  useEffect(() => {
+    if (viewMode === 'all' && hasActiveFilters) {
+      loadMoreConversations(true);
+    }
+  }, [viewMode, hasActiveFilters, loadMoreConversations]);
 
   const getDaysAgo = (unixSecs: number) => {
     const now = Date.now() / 1000;
@@ -421,7 +469,7 @@ export default function Dashboard() {
           </div>
           
           <div className="text-sm text-gray-500">
-            {viewMode === 'last' ? 'Showing latest conversation' : `${filteredConversations.length} of ${conversations.length} conversations`}
+            {viewMode === 'last' ? 'Showing latest conversation' : `${filteredConversations.length} of ${conversations.length}${nextCursor ? '+' : ''} conversations`}
           </div>
         </div>
 
@@ -527,6 +575,18 @@ export default function Dashboard() {
             filteredConversations.map(renderConversationItem)
           )}
         </div>
+
+        {viewMode === 'all' && (nextCursor || loadingMore) && (
+          <div className="mt-6 flex justify-center">
+            <button
+              onClick={() => loadMoreConversations(false)}
+              disabled={loadingMore}
+              className="px-6 py-3 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-xl transition-all duration-200 shadow-sm disabled:opacity-50"
+            >
+              {loadingMore ? 'Loading...' : 'Load more'}
+            </button>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { syncIfStale } from '@/lib/conversation-sync';
+import { analyzeConversations, ConversationFilter } from '@/lib/cross-analysis';
+import { startJobWorker } from '@/lib/job-worker';
+import { getLLMClient, LLMRequestError, rateLimited } from '@/lib/llm';
+
+interface CrossAnalyzeRequest {
+  question?: string;
+  filter?: ConversationFilter;
+}
+
+export async function POST(request: Request) {
+  try {
+    const auth = await authorize(request, 'analyst');
+    if (auth instanceof NextResponse) return auth;
+
+    const client = getLLMClient();
+
+    if (!client) {
+      return NextResponse.json(
+        { error: 'LLM provider not configured' },
+        { status: 500 }
+      );
+    }
+
+    const { question, filter = {} }: CrossAnalyzeRequest = await request.json();
+
+    if (!question) {
+      return NextResponse.json(
+        { error: 'Question is required' },
+        { status: 400 }
+      );
+    }
+
+    await syncIfStale();
+    // Shares the provider's rate limit with search and the job queue, which embeds what search hasn't seen yet
+    await startJobWorker();
+    const result = await analyzeConversations(rateLimited(client), question, filter);
+
+    if (result.matching_total === 0) {
+      return NextResponse.json({ ...result, answer: 'No conversations match this filter' });
+    }
+
+    return NextResponse.json({ ...result, answer: result.answer || 'No answer generated' });
+  } catch (error) {
+    console.error('Error analyzing conversations:', error);
+    if (error instanceof LLMRequestError && error.status === 429) {
+      return NextResponse.json(
+        { error: 'Rate limited by LLM provider' },
+        { status: 429 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to analyze conversations' },
+      { status: 500 }
+    );
+  }
+}
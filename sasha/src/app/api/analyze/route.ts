@@ -1,73 +1,148 @@
 import { NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { chatStore } from '@/lib/chat-store';
+import {
+  chunkTranscript,
+  estimateTranscriptTokens,
+  selectRelevantChunks,
+  TRANSCRIPT_TOKEN_BUDGET,
+} from '@/lib/chunking';
+import { Citation, extractCitations, numberTranscript } from '@/lib/citations';
+import { ConversationNotFoundError, loadConversationDetails } from '@/lib/conversation-sync';
+import { ChatMessage, getGenerationConfig, getLLMClient } from '@/lib/llm';
+import { TranscriptTurn } from '@/lib/types';
+
+interface AnalyzeRequest {
+  conversationId?: string;
+  transcript?: TranscriptTurn[];
+  question?: string;
+  // Prior turns for callers that pass a transcript instead of a stored conversation
+  history?: ChatMessage[];
+  stream?: boolean;
+}
 
 export async function POST(request: Request) {
   try {
-    const apiKey = process.env.GEMINI_API_KEY;
+    const auth = await authorize(request, 'analyst');
+    if (auth instanceof NextResponse) return auth;
+
+    const llm = getLLMClient();
     
-    if (!apiKey) {
+    if (!llm) {
       return NextResponse.json(
-        { error: 'Gemini API key not configured' },
+        { error: 'LLM provider not configured' },
         { status: 500 }
       );
     }
 
-    const { transcript, question } = await request.json();
+    const { conversationId, question, stream, ...body }: AnalyzeRequest = await request.json();
 
-    if (!transcript || !question) {
+    if ((!conversationId && !body.transcript) || !question) {
       return NextResponse.json(
-        { error: 'Transcript and question are required' },
+        { error: 'Conversation ID or transcript, and question are required' },
         { status: 400 }
       );
     }
 
-    // Format transcript for better context
-    const formattedTranscript = transcript.map((turn: { role: string; message: string }) => 
-      `${turn.role.toUpperCase()}: ${turn.message}`
-    ).join('\n\n');
+    const transcript = body.transcript ?? (await loadConversationDetails(conversationId!)).transcript;
+    const history = conversationId ? await chatStore.get(conversationId) : body.history ?? [];
 
-    const prompt = `Based on the following conversation transcript, please answer the user's question accurately and concisely.
+    // Long transcripts: only the chunks most relevant to the question (and recent follow-ups) go in the prompt
+    let transcriptContext = numberTranscript(transcript);
+    let chunking: { applied: boolean; chunks_used?: number; chunks_total?: number } = { applied: false };
+    if (estimateTranscriptTokens(transcript) > TRANSCRIPT_TOKEN_BUDGET) {
+      const chunks = chunkTranscript(transcript);
+      const recentQuestions = history.filter(message => message.role === 'user').slice(-2).map(message => message.content);
+      const selected = selectRelevantChunks(chunks, [...recentQuestions, question].join(' '));
+      transcriptContext = selected.map(chunk => numberTranscript(chunk.turns, chunk.start_index)).join('\n\n[...]\n\n');
+      chunking = { applied: true, chunks_used: selected.length, chunks_total: chunks.length };
+    }
+
+    const system = `You answer questions about the following conversation transcript accurately and concisely.
+Each turn is numbered in square brackets and shows when it happened in the call.${chunking.applied ? `
+The transcript is long, so only the excerpts most relevant to the question are included; [...] marks omitted parts.` : ''}
 
 TRANSCRIPT:
-${formattedTranscript}
+${transcriptContext}
+
+Please provide helpful answers based only on the information available in the transcript above. Cite the turns that support each statement by their numbers in square brackets, e.g. [3] or [2][5]. Follow-up questions may refer to your earlier answers in this chat.`;
 
-QUESTION: ${question}
+    const generation = {
+      prompt: question,
+      system,
+      history: history.map(({ role, content }) => ({ role, content })),
+      ...getGenerationConfig('analyze'),
+    };
 
-Please provide a helpful answer based only on the information available in the transcript above.`;
+    // Keep the exchange so follow-up questions have context
+    const saveExchange = async (answer: string, citations: Citation[]) => {
+      if (conversationId && answer) {
+        await chatStore.append(conversationId, [
+          { role: 'user', content: question },
+          { role: 'assistant', content: answer, citations },
+        ]);
+      }
+    };
 
-    const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash-latest:generateContent?key=${apiKey}`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        contents: [{
-          parts: [{
-            text: prompt
-          }]
-        }],
-        generationConfig: {
-          temperature: 0.7,
-          topK: 40,
-          topP: 0.95,
-          maxOutputTokens: 1024,
-        }
-      }),
-    });
+    if (stream) {
+      // Newline-delimited JSON: a context event, token events, then one citations event once the answer is complete.
+      // Aborting the request cancels the upstream call.
+      const tokens = llm.stream({ ...generation, signal: request.signal })[Symbol.asyncIterator]();
+      const encoder = new TextEncoder();
+      const send = (controller: ReadableStreamDefaultController<Uint8Array>, event: object) =>
+        controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+      let answer = '';
+      const responseBody = new ReadableStream<Uint8Array>({
+        start(controller) {
+          send(controller, { type: 'context', chunking });
+        },
+        async pull(controller) {
+          try {
+            const { done, value } = await tokens.next();
+            if (done) {
+              const citations = extractCitations(answer, transcript);
+              await saveExchange(answer, citations);
+              send(controller, { type: 'citations', citations });
+              controller.close();
+            } else {
+              answer += value;
+              send(controller, { type: 'token', text: value });
+            }
+          } catch (error) {
+            console.error('Error streaming analysis:', error);
+            controller.error(error);
+          }
+        },
+        async cancel() {
+          await tokens.return?.();
+        },
+      });
 
-    if (!response.ok) {
-      throw new Error(`Gemini API request failed: ${response.status}`);
+      return new Response(responseBody, {
+        headers: {
+          'Content-Type': 'application/x-ndjson; charset=utf-8',
+          'Cache-Control': 'no-cache',
+        },
+      });
     }
 
-    const data = await response.json();
+    const { text } = await llm.generate(generation);
+    const citations = extractCitations(text, transcript);
+    await saveExchange(text, citations);
+    const answer = text || 'No answer generated';
     
-    const answer = data.candidates?.[0]?.content?.parts?.[0]?.text || 'No answer generated';
-    
-    return NextResponse.json({ answer });
+    return NextResponse.json({ answer, citations, chunking });
   } catch (error) {
     console.error('Error analyzing transcript:', error);
+    if (error instanceof ConversationNotFoundError) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      );
+    }
     return NextResponse.json(
       { error: 'Failed to analyze transcript' },
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
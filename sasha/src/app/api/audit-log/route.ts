@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuditAction, auditLog } from '@/lib/audit-log';
+import { authorize } from '@/lib/auth';
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorize(request, 'admin');
+    if (auth instanceof NextResponse) return auth;
+
+    const searchParams = request.nextUrl.searchParams;
+    const actions = searchParams.get('action');
+    const entries = await auditLog.list({
+      targetId: searchParams.get('target_id') || undefined,
+      actions: actions ? actions.split(',') as AuditAction[] : undefined,
+      limit: Number(searchParams.get('limit')) || undefined,
+    });
+    return NextResponse.json({ entries });
+  } catch (error) {
+    console.error('Error fetching audit log:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch audit log' },
+      { status: 500 }
+    );
+  }
+}
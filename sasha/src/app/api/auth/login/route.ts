@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { createSessionToken, SESSION_COOKIE, SESSION_MAX_AGE_SECS } from '@/lib/session';
+import { ensureBootstrapAdmin, userStore } from '@/lib/users';
+
+export async function POST(request: Request) {
+  try {
+    const { email, password } = await request.json();
+
+    if (!email || !password) {
+      return NextResponse.json(
+        { error: 'Email and password are required' },
+        { status: 400 }
+      );
+    }
+
+    await ensureBootstrapAdmin();
+    const user = await userStore.verifyPassword(email, password);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Invalid email or password' },
+        { status: 401 }
+      );
+    }
+
+    const response = NextResponse.json({ email: user.email, name: user.name, role: user.role });
+    response.cookies.set(SESSION_COOKIE, await createSessionToken(user.email, user.role), {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/',
+      maxAge: SESSION_MAX_AGE_SECS,
+    });
+    return response;
+  } catch (error) {
+    console.error('Error logging in:', error);
+    return NextResponse.json(
+      { error: 'Failed to log in' },
+      { status: 500 }
+    );
+  }
+}
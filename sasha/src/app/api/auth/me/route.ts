@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+
+export async function GET(request: Request) {
+  try {
+    const auth = await authorize(request, 'viewer');
+    if (auth instanceof NextResponse) return auth;
+
+    return NextResponse.json({ email: auth.email, role: auth.role });
+  } catch (error) {
+    console.error('Error fetching session:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch session' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import { NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { contactStore } from '@/lib/contacts';
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ email: string }> }
+) {
+  try {
+    const auth = await authorize(request, 'analyst');
+    if (auth instanceof NextResponse) return auth;
+
+    const body = await request.json();
+    if (body.participant_names !== undefined && !Array.isArray(body.participant_names)) {
+      return NextResponse.json(
+        { error: 'Participant names must be a list' },
+        { status: 400 }
+      );
+    }
+
+    const contact = await contactStore.update(decodeURIComponent((await params).email), {
+      ...(body.name !== undefined && { name: String(body.name).trim() }),
+      ...(body.participant_names !== undefined && { participant_names: body.participant_names }),
+    });
+    if (!contact) {
+      return NextResponse.json(
+        { error: 'Contact not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(contact);
+  } catch (error) {
+    console.error('Error updating contact:', error);
+    return NextResponse.json(
+      { error: 'Failed to update contact' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ email: string }> }
+) {
+  try {
+    const auth = await authorize(request, 'analyst');
+    if (auth instanceof NextResponse) return auth;
+
+    if (!(await contactStore.remove(decodeURIComponent((await params).email)))) {
+      return NextResponse.json(
+        { error: 'Contact not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting contact:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete contact' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { contactInputError, contactStore } from '@/lib/contacts';
+
+export async function GET(request: Request) {
+  try {
+    const auth = await authorize(request, 'viewer');
+    if (auth instanceof NextResponse) return auth;
+
+    const query = new URL(request.url).searchParams.get('q') ?? '';
+    return NextResponse.json({ contacts: await contactStore.list(query) });
+  } catch (error) {
+    console.error('Error listing contacts:', error);
+    return NextResponse.json(
+      { error: 'Failed to list contacts' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const auth = await authorize(request, 'analyst');
+    if (auth instanceof NextResponse) return auth;
+
+    const body = await request.json();
+    const invalid = contactInputError(body);
+    if (invalid) {
+      return NextResponse.json(
+        { error: invalid },
+        { status: 400 }
+      );
+    }
+
+    const contact = await contactStore.save({
+      email: body.email,
+      name: body.name?.trim() ?? '',
+      participant_names: body.participant_names ?? [],
+    });
+    return NextResponse.json(contact, { status: 201 });
+  } catch (error) {
+    console.error('Error saving contact:', error);
+    return NextResponse.json(
+      { error: 'Failed to save contact' },
+      { status: 500 }
+    );
+  }
+}
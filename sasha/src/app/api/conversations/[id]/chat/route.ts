@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { chatStore } from '@/lib/chat-store';
+import { conversationStore } from '@/lib/conversation-store';
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize(request, 'viewer');
+    if (auth instanceof NextResponse) return auth;
+
+    const { id } = await params;
+    if (!(await conversationStore.get(id))) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      );
+    }
+
+    const messages = await chatStore.get(id);
+    return NextResponse.json({ messages });
+  } catch (error) {
+    console.error('Error fetching chat history:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch chat history' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize(request, 'analyst');
+    if (auth instanceof NextResponse) return auth;
+
+    const { id } = await params;
+    await chatStore.clear(id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error clearing chat history:', error);
+    return NextResponse.json(
+      { error: 'Failed to clear chat history' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { contactStore } from '@/lib/contacts';
+import { conversationStore } from '@/lib/conversation-store';
+
+// Who to suggest emailing about a conversation; /api/outbox has who it was emailed to already
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize(request, 'viewer');
+    if (auth instanceof NextResponse) return auth;
+
+    const { id } = await params;
+    const conversation = await conversationStore.get(id);
+    if (!conversation) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      );
+    }
+
+    const participant = conversation.participant_name ?? null;
+    return NextResponse.json({
+      participant,
+      suggested: participant ? await contactStore.findByParticipant(participant) : [],
+    });
+  } catch (error) {
+    console.error('Error fetching conversation recipients:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch conversation recipients' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { restoreConversation } from '@/lib/trash';
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize(request, 'admin');
+    if (auth instanceof NextResponse) return auth;
+
+    const { id } = await params;
+    if (!(await restoreConversation(id, auth.email))) {
+      return NextResponse.json(
+        { error: 'Conversation is not in the trash' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error restoring conversation:', error);
+    return NextResponse.json(
+      { error: 'Failed to restore conversation' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,34 +1,28 @@
 import { NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { ConversationNotFoundError, loadConversationDetails } from '@/lib/conversation-sync';
+import { trashConversation } from '@/lib/trash';
 
 export async function GET(
   request: Request,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const apiKey = process.env.ELEVENLABS_API_KEY;
-    
-    if (!apiKey) {
-      return NextResponse.json(
-        { error: 'ElevenLabs API key not configured' },
-        { status: 500 }
-      );
-    }
+    const auth = await authorize(request, 'viewer');
+    if (auth instanceof NextResponse) return auth;
 
     const { id } = await params;
-    const response = await fetch(`https://api.elevenlabs.io/v1/convai/conversations/${id}`, {
-      headers: {
-        'xi-api-key': apiKey,
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error(`API request failed: ${response.status}`);
-    }
-
-    const data = await response.json();
-    return NextResponse.json(data);
+    // Trashed conversations are not found until they are restored
+    const details = await loadConversationDetails(id);
+    return NextResponse.json(details);
   } catch (error) {
     console.error('Error fetching conversation details:', error);
+    if (error instanceof ConversationNotFoundError) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      );
+    }
     return NextResponse.json(
       { error: 'Failed to fetch conversation details' },
       { status: 500 }
@@ -41,28 +35,20 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const apiKey = process.env.ELEVENLABS_API_KEY;
-    
-    if (!apiKey) {
-      return NextResponse.json(
-        { error: 'ElevenLabs API key not configured' },
-        { status: 500 }
-      );
-    }
+    const auth = await authorize(request, 'admin');
+    if (auth instanceof NextResponse) return auth;
 
     const { id } = await params;
-    const response = await fetch(`https://api.elevenlabs.io/v1/convai/conversations/${id}`, {
-      method: 'DELETE',
-      headers: {
-        'xi-api-key': apiKey,
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error(`API request failed: ${response.status}`);
+    // Soft delete: it moves to the trash and is purged upstream after the retention window
+    const entry = await trashConversation(id, auth.email);
+    if (!entry) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      );
     }
 
-    return NextResponse.json({ success: true });
+    return NextResponse.json({ success: true, ...entry });
   } catch (error) {
     console.error('Error deleting conversation:', error);
     return NextResponse.json(
@@ -70,4 +56,4 @@ export async function DELETE(
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
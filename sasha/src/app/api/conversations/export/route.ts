@@ -0,0 +1,88 @@
+import { NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { conversationStore } from '@/lib/conversation-store';
+import { loadConversationDetails } from '@/lib/conversation-sync';
+import { formatSummaryText } from '@/lib/summary';
+import { summaryStore } from '@/lib/summary-store';
+
+const CSV_COLUMNS = [
+  'conversation_id', 'title', 'agent', 'participant', 'started_at', 'duration_secs',
+  'status', 'call_successful', 'tags', 'summary',
+] as const;
+
+function csvCell(value: string | number | null | undefined) {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export async function POST(request: Request) {
+  try {
+    const auth = await authorize(request, 'analyst');
+    if (auth instanceof NextResponse) return auth;
+
+    const { conversationIds, format = 'csv' }: { conversationIds?: string[]; format?: 'csv' | 'json' } = await request.json();
+
+    if (!conversationIds?.length || !['csv', 'json'].includes(format)) {
+      return NextResponse.json(
+        { error: 'Conversation IDs and a format of csv or json are required' },
+        { status: 400 }
+      );
+    }
+
+    const conversations = (await Promise.all(conversationIds.map(id => conversationStore.get(id))))
+      .filter(conv => conv !== null);
+    const summaries = await summaryStore.current(await conversationStore.detailsFor(conversations.map(conv => conv.conversation_id)));
+    const filename = `conversations-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+    if (format === 'json') {
+      // Full transcripts; a conversation whose transcript can't be loaded is exported without it
+      const items = [];
+      for (const conv of conversations) {
+        const summary = summaries[conv.conversation_id]?.result ?? null;
+        try {
+          const { transcript } = await loadConversationDetails(conv.conversation_id);
+          items.push({ ...conv, gemini_summary: summary, transcript });
+        } catch (error) {
+          console.error(`Error loading transcript for export of ${conv.conversation_id}:`, error);
+          items.push({ ...conv, gemini_summary: summary, transcript: null });
+        }
+      }
+      return new Response(JSON.stringify({ exported_at: new Date().toISOString(), conversations: items }, null, 2), {
+        headers: {
+          'Content-Type': 'application/json',
+          'Content-Disposition': `attachment; filename="${filename}"`,
+        },
+      });
+    }
+
+    const rows = conversations.map(conv => {
+      const summary = summaries[conv.conversation_id]?.result;
+      const row: Record<typeof CSV_COLUMNS[number], string | number | null | undefined> = {
+        conversation_id: conv.conversation_id,
+        title: conv.call_summary_title,
+        agent: conv.agent_name,
+        participant: conv.participant_name,
+        started_at: new Date(conv.start_time_unix_secs * 1000).toISOString(),
+        duration_secs: conv.call_duration_secs,
+        status: conv.status,
+        call_successful: conv.call_successful,
+        tags: conv.tags?.join('; '),
+        summary: summary ? formatSummaryText(summary) : conv.transcript_summary,
+      };
+      return CSV_COLUMNS.map(column => csvCell(row[column])).join(',');
+    });
+
+    return new Response([CSV_COLUMNS.join(','), ...rows].join('\n'), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting conversations:', error);
+    return NextResponse.json(
+      { error: 'Failed to export conversations' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,27 +1,38 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { conversationStore } from '@/lib/conversation-store';
+import { syncIfStale } from '@/lib/conversation-sync';
+import { summaryStore } from '@/lib/summary-store';
+import { purgeIfDue } from '@/lib/trash';
 
-export async function GET() {
+function numberParam(value: string | null) {
+  return value ? Number(value) : undefined;
+}
+
+export async function GET(request: NextRequest) {
   try {
-    const apiKey = process.env.ELEVENLABS_API_KEY;
-    
-    if (!apiKey) {
-      return NextResponse.json(
-        { error: 'ElevenLabs API key not configured' },
-        { status: 500 }
-      );
-    }
+    const auth = await authorize(request, 'viewer');
+    if (auth instanceof NextResponse) return auth;
 
-    const response = await fetch('https://api.elevenlabs.io/v1/convai/conversations?summary_mode=include', {
-      headers: {
-        'xi-api-key': apiKey,
-      },
-    });
+    await syncIfStale();
+    await purgeIfDue();
 
-    if (!response.ok) {
-      throw new Error(`API request failed: ${response.status}`);
-    }
+    const searchParams = request.nextUrl.searchParams;
+    const data = await conversationStore.list({
+      cursor: searchParams.get('cursor'),
+      pageSize: numberParam(searchParams.get('page_size')),
+      agentId: searchParams.get('agent_id'),
+      startAfter: numberParam(searchParams.get('call_start_after_unix')),
+      startBefore: numberParam(searchParams.get('call_start_before_unix')),
+    });
 
-    const data = await response.json();
+    // Only this page's transcripts are hashed to check its summaries are still current
+    const details = await conversationStore.detailsFor(data.conversations.map(conv => conv.conversation_id));
+    const summaries = await summaryStore.current(details);
+    data.conversations = data.conversations.map(conv => ({
+      ...conv,
+      gemini_summary: summaries[conv.conversation_id]?.result ?? null,
+    }));
     return NextResponse.json(data);
   } catch (error) {
     console.error('Error fetching conversations:', error);
@@ -30,4 +41,4 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { conversationStore } from '@/lib/conversation-store';
+
+interface TagRequest {
+  conversationIds?: string[];
+  add?: string[];
+  remove?: string[];
+}
+
+function cleanTags(tags: string[] = []) {
+  return tags.map(tag => tag.trim().toLowerCase()).filter(Boolean);
+}
+
+export async function POST(request: Request) {
+  try {
+    const auth = await authorize(request, 'analyst');
+    if (auth instanceof NextResponse) return auth;
+
+    const { conversationIds, ...body }: TagRequest = await request.json();
+    const add = cleanTags(body.add);
+    const remove = cleanTags(body.remove);
+
+    if (!conversationIds?.length || (add.length === 0 && remove.length === 0)) {
+      return NextResponse.json(
+        { error: 'Conversation IDs and tags to add or remove are required' },
+        { status: 400 }
+      );
+    }
+
+    const updated = await conversationStore.updateTags(conversationIds, { add, remove });
+    const results = conversationIds.map(id => updated[id]
+      ? { conversation_id: id, ok: true, tags: updated[id] }
+      : { conversation_id: id, ok: false, error: 'Conversation not found' }
+    );
+    return NextResponse.json({ results });
+  } catch (error) {
+    console.error('Error tagging conversations:', error);
+    return NextResponse.json(
+      { error: 'Failed to tag conversations' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,82 @@
+import { NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { conversationStore } from '@/lib/conversation-store';
+import { startJobWorker } from '@/lib/job-worker';
+import { getMailer, invalidAddresses, mailSettings, parseAddresses } from '@/lib/mail';
+import { queueEmail } from '@/lib/outbox';
+import { formatSummaryText } from '@/lib/summary';
+import { summaryStore } from '@/lib/summary-store';
+
+// One email covering several conversations, built from stored summaries (no new LLM calls)
+export async function POST(request: Request) {
+  try {
+    const auth = await authorize(request, 'admin');
+    if (auth instanceof NextResponse) return auth;
+
+    if (!getMailer()) {
+      return NextResponse.json(
+        { error: 'Email configuration not found' },
+        { status: 500 }
+      );
+    }
+
+    const { conversationIds, recipient }: { conversationIds?: string[]; recipient?: string } = await request.json();
+    const to = recipient || process.env.EMAIL_RECIPIENTS;
+
+    if (!conversationIds?.length || !to || parseAddresses(to).length === 0) {
+      return NextResponse.json(
+        { error: 'Conversation IDs and a recipient are required' },
+        { status: 400 }
+      );
+    }
+
+    const invalid = invalidAddresses(to);
+    if (invalid.length > 0) {
+      return NextResponse.json(
+        { error: `Invalid email addresses: ${invalid.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    // Trashed conversations aren't found, so they are left out like unknown IDs
+    const conversations = (await Promise.all(conversationIds.map(id => conversationStore.get(id))))
+      .filter(conv => conv !== null)
+      .sort((a, b) => b.start_time_unix_secs - a.start_time_unix_secs);
+
+    if (conversations.length === 0) {
+      return NextResponse.json(
+        { error: 'None of the conversations were found' },
+        { status: 404 }
+      );
+    }
+
+    const summaries = await summaryStore.current(await conversationStore.detailsFor(conversations.map(conv => conv.conversation_id)));
+    const sections = conversations.map((conv, index) => {
+      const summary = summaries[conv.conversation_id]?.result;
+      const date = new Date(conv.start_time_unix_secs * 1000).toLocaleDateString();
+      return `${index + 1}. ${conv.call_summary_title || 'Untitled Conversation'} (${date}, ${conv.agent_name})
+${(summary && formatSummaryText(summary)) || conv.transcript_summary || 'No summary available yet.'}`;
+    });
+
+    // Sent by the job worker like every other email, so failures are retried and show in the outbox
+    await startJobWorker();
+    const email = await queueEmail({
+      to,
+      subject: `Conversation digest: ${conversations.length} conversations`,
+      text: `Here is a digest of ${conversations.length} conversations.\n\n${sections.join('\n\n---\n\n')}\n\nBest regards,\n${mailSettings().fromName}`,
+    }, { actor: auth.email });
+
+    const found = new Set(conversations.map(conv => conv.conversation_id));
+    const results = conversationIds.map(id => found.has(id)
+      ? { conversation_id: id, ok: true }
+      : { conversation_id: id, ok: false, error: 'Conversation not found' }
+    );
+    return NextResponse.json({ success: true, recipient: to, email, results });
+  } catch (error) {
+    console.error('Error sending digest email:', error);
+    return NextResponse.json(
+      { error: 'Failed to send digest email' },
+      { status: 500 }
+    );
+  }
+}
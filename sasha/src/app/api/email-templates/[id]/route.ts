@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { DEFAULT_TEMPLATE_ID, emailTemplateStore, EmailTemplateInput, templateInputError } from '@/lib/email-templates';
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize(request, 'analyst');
+    if (auth instanceof NextResponse) return auth;
+
+    const { id } = await params;
+    const existing = await emailTemplateStore.get(id);
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Template not found' },
+        { status: 404 }
+      );
+    }
+
+    const { name, subject, body } = await request.json();
+    const changes: Partial<EmailTemplateInput> = {
+      ...(name !== undefined && { name }),
+      ...(subject !== undefined && { subject }),
+      ...(body !== undefined && { body }),
+    };
+
+    const invalid = templateInputError({ ...existing, ...changes });
+    if (invalid) {
+      return NextResponse.json(
+        { error: invalid },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(await emailTemplateStore.update(id, changes));
+  } catch (error) {
+    console.error('Error updating email template:', error);
+    return NextResponse.json(
+      { error: 'Failed to update email template' },
+      { status: 500 }
+    );
+  }
+}
+
+// Deleting the default template resets it to the built-in version
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize(request, 'analyst');
+    if (auth instanceof NextResponse) return auth;
+
+    const { id } = await params;
+    if (!(await emailTemplateStore.remove(id))) {
+      return NextResponse.json(
+        { error: 'Template not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(id === DEFAULT_TEMPLATE_ID
+      ? { success: true, template: await emailTemplateStore.get(id) }
+      : { success: true });
+  } catch (error) {
+    console.error('Error deleting email template:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete email template' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,69 @@
+import { NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { summarizeConversation } from '@/lib/conversation-summary';
+import { ConversationNotFoundError } from '@/lib/conversation-sync';
+import {
+  DEFAULT_TEMPLATE_ID,
+  emailTemplateStore,
+  EmailTemplateInput,
+  renderEmailTemplate,
+  SAMPLE_SUMMARY,
+  templateInputError,
+} from '@/lib/email-templates';
+import { getLLMClient, rateLimited } from '@/lib/llm';
+import { SummaryResult } from '@/lib/summary';
+
+/**
+ * Render a stored template (templateId, default if omitted) or an unsaved draft (template) with the same renderer
+ * used for sending. Uses the conversation's summary when conversationId is given, sample data otherwise.
+ */
+export async function POST(request: Request) {
+  try {
+    const auth = await authorize(request, 'analyst');
+    if (auth instanceof NextResponse) return auth;
+
+    const { templateId, template, conversationId, recipient }: {
+      templateId?: string;
+      template?: Pick<EmailTemplateInput, 'subject' | 'body'>;
+      conversationId?: string;
+      recipient?: string;
+    } = await request.json();
+
+    const source = template ?? (await emailTemplateStore.get(templateId || DEFAULT_TEMPLATE_ID));
+    if (!source) {
+      return NextResponse.json(
+        { error: 'Template not found' },
+        { status: 404 }
+      );
+    }
+
+    const invalid = template && templateInputError({ name: 'Draft', ...template });
+    if (invalid) {
+      return NextResponse.json(
+        { error: invalid },
+        { status: 400 }
+      );
+    }
+
+    let summary: SummaryResult | null = SAMPLE_SUMMARY;
+    if (conversationId) {
+      const client = getLLMClient();
+      // Without a provider the email shows its missing-summary text, as it would when sent
+      summary = client ? await summarizeConversation(rateLimited(client), conversationId) : null;
+    }
+
+    return NextResponse.json(renderEmailTemplate(source, { recipient: recipient || 'Alex Example', summary }));
+  } catch (error) {
+    console.error('Error previewing email template:', error);
+    if (error instanceof ConversationNotFoundError) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to preview email template' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { emailTemplateStore, TEMPLATE_VARIABLES, templateInputError } from '@/lib/email-templates';
+
+export async function GET(request: Request) {
+  try {
+    const auth = await authorize(request, 'viewer');
+    if (auth instanceof NextResponse) return auth;
+
+    return NextResponse.json({ templates: await emailTemplateStore.list(), variables: TEMPLATE_VARIABLES });
+  } catch (error) {
+    console.error('Error listing email templates:', error);
+    return NextResponse.json(
+      { error: 'Failed to list email templates' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const auth = await authorize(request, 'analyst');
+    if (auth instanceof NextResponse) return auth;
+
+    const { name, subject, body } = await request.json();
+    const input = { name, subject, body };
+
+    const invalid = templateInputError(input);
+    if (invalid) {
+      return NextResponse.json(
+        { error: invalid },
+        { status: 400 }
+      );
+    }
+
+    const template = await emailTemplateStore.create(input);
+    return NextResponse.json(template, { status: 201 });
+  } catch (error) {
+    console.error('Error creating email template:', error);
+    return NextResponse.json(
+      { error: 'Failed to create email template' },
+      { status: 500 }
+    );
+  }
+}
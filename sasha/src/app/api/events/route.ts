@@ -0,0 +1,77 @@
+import { NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { syncIfStale } from '@/lib/conversation-sync';
+import { DashboardEvent, subscribe } from '@/lib/events';
+
+// Keeps proxies from closing an idle stream
+const HEARTBEAT_INTERVAL_MS = 25000;
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Server-sent events for the dashboard: new and changed conversations, removals, finished summaries and outbox email status.
+ * While a dashboard is open, heartbeats also keep the ElevenLabs sync running, so new calls show up
+ * without a page reload even when webhooks aren't set up.
+ */
+export async function GET(request: Request) {
+  try {
+    const auth = await authorize(request, 'viewer');
+    if (auth instanceof NextResponse) return auth;
+
+    const encoder = new TextEncoder();
+    let cleanup = () => {};
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        const send = (chunk: string) => {
+          try {
+            controller.enqueue(encoder.encode(chunk));
+          } catch {
+            // The stream was closed between the event and this write
+            cleanup();
+          }
+        };
+
+        const unsubscribe = subscribe((event: DashboardEvent) => {
+          send(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+        });
+        const heartbeat = setInterval(() => {
+          send(': heartbeat\n\n');
+          syncIfStale();
+        }, HEARTBEAT_INTERVAL_MS);
+
+        cleanup = () => {
+          unsubscribe();
+          clearInterval(heartbeat);
+        };
+        request.signal.addEventListener('abort', () => {
+          cleanup();
+          try {
+            controller.close();
+          } catch {
+            // Already closed
+          }
+        });
+
+        send(': connected\n\n');
+      },
+      cancel() {
+        cleanup();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+      },
+    });
+  } catch (error) {
+    console.error('Error opening event stream:', error);
+    return NextResponse.json(
+      { error: 'Failed to open event stream' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,75 @@
+import { NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { followUpRuleStore, FollowUpRuleInput, ruleInputError } from '@/lib/follow-up-rules';
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize(request, 'admin');
+    if (auth instanceof NextResponse) return auth;
+
+    const { id } = await params;
+    const existing = await followUpRuleStore.get(id);
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Rule not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const changes: Partial<FollowUpRuleInput> = {
+      ...(body.name !== undefined && { name: body.name }),
+      ...(body.enabled !== undefined && { enabled: !!body.enabled }),
+      ...(body.agent_id !== undefined && { agent_id: body.agent_id || null }),
+      ...(body.call_successful !== undefined && { call_successful: body.call_successful || null }),
+      ...(body.recipient !== undefined && { recipient: body.recipient }),
+      ...(Array.isArray(body.emails) && { emails: body.emails }),
+      ...(body.delay_minutes !== undefined && { delay_minutes: Number(body.delay_minutes) }),
+      ...(body.template_id !== undefined && { template_id: body.template_id || null }),
+    };
+
+    const invalid = ruleInputError({ ...existing, ...changes });
+    if (invalid) {
+      return NextResponse.json(
+        { error: invalid },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(await followUpRuleStore.update(id, changes));
+  } catch (error) {
+    console.error('Error updating follow-up rule:', error);
+    return NextResponse.json(
+      { error: 'Failed to update follow-up rule' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize(request, 'admin');
+    if (auth instanceof NextResponse) return auth;
+
+    if (!(await followUpRuleStore.remove((await params).id))) {
+      return NextResponse.json(
+        { error: 'Rule not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting follow-up rule:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete follow-up rule' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { conversationStore } from '@/lib/conversation-store';
+import { followUpRuleStore, FollowUpRuleInput, ruleInputError } from '@/lib/follow-up-rules';
+
+export async function GET(request: Request) {
+  try {
+    const auth = await authorize(request, 'admin');
+    if (auth instanceof NextResponse) return auth;
+
+    // Agents seen in stored conversations, for the rule form
+    const agents = new Map((await conversationStore.all()).map(conv => [conv.agent_id, conv.agent_name]));
+    return NextResponse.json({
+      rules: await followUpRuleStore.list(),
+      agents: [...agents].map(([agent_id, agent_name]) => ({ agent_id, agent_name })),
+    });
+  } catch (error) {
+    console.error('Error listing follow-up rules:', error);
+    return NextResponse.json(
+      { error: 'Failed to list follow-up rules' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const auth = await authorize(request, 'admin');
+    if (auth instanceof NextResponse) return auth;
+
+    const body = await request.json();
+    const input: FollowUpRuleInput = {
+      name: body.name,
+      enabled: body.enabled ?? true,
+      agent_id: body.agent_id || null,
+      call_successful: body.call_successful || null,
+      recipient: body.recipient,
+      emails: Array.isArray(body.emails) ? body.emails : [],
+      delay_minutes: Number(body.delay_minutes ?? 0),
+      template_id: body.template_id || null,
+    };
+
+    const invalid = ruleInputError(input);
+    if (invalid) {
+      return NextResponse.json(
+        { error: invalid },
+        { status: 400 }
+      );
+    }
+
+    const rule = await followUpRuleStore.create(input);
+    return NextResponse.json(rule, { status: 201 });
+  } catch (error) {
+    console.error('Error creating follow-up rule:', error);
+    return NextResponse.json(
+      { error: 'Failed to create follow-up rule' },
+      { status: 500 }
+    );
+  }
+}
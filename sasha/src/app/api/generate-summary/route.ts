@@ -1,76 +1,64 @@
 import { NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { summarizeConversation } from '@/lib/conversation-summary';
+import { ConversationNotFoundError } from '@/lib/conversation-sync';
+import { getLLMClient, LLMRequestError, rateLimited } from '@/lib/llm';
+import { summarizeTranscript } from '@/lib/summarize';
+import { SummaryResult } from '@/lib/summary';
+import { TranscriptTurn } from '@/lib/types';
 
 export async function POST(request: Request) {
   try {
-    const apiKey = process.env.GEMINI_API_KEY;
+    const auth = await authorize(request, 'analyst');
+    if (auth instanceof NextResponse) return auth;
+
+    // Shares the provider's rate limit with the job queue
+    const client = getLLMClient();
     
-    if (!apiKey) {
+    if (!client) {
       return NextResponse.json(
-        { error: 'Gemini API key not configured' },
+        { error: 'LLM provider not configured' },
         { status: 500 }
       );
     }
 
-    const { transcript } = await request.json();
+    const llm = rateLimited(client);
+    const body: { conversationId?: string; transcript?: TranscriptTurn[] } = await request.json();
 
-    if (!transcript) {
+    if (!body.conversationId && !body.transcript) {
       return NextResponse.json(
-        { error: 'Transcript is required' },
+        { error: 'Conversation ID or transcript is required' },
         { status: 400 }
       );
     }
 
-    // Format transcript for better context
-    const formattedTranscript = transcript.map((turn: { role: string; message: string }) => 
-      `${turn.role.toUpperCase()}: ${turn.message}`
-    ).join('\n\n');
-
-    const prompt = `Based on the following conversation transcript, please analyze and structure the key insights into three specific categories. 
-
-TRANSCRIPT:
-${formattedTranscript}
-
-Please provide your analysis in this exact format:
-
-**Issue:** [Identify the main problem, challenge, or concern discussed in the conversation]
-
-**Goal:** [Define the primary objective, desired outcome, or what needs to be achieved]
-
-**Next Steps:** [Outline the specific actions, decisions, or follow-up items that should happen next]
-
-Keep each section concise but actionable, focusing on the most important aspects from the conversation.`;
-
-    const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash-latest:generateContent?key=${apiKey}`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        contents: [{
-          parts: [{
-            text: prompt
-          }]
-        }],
-        generationConfig: {
-          temperature: 0.7,
-          topK: 40,
-          topP: 0.95,
-          maxOutputTokens: 512,
-        }
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`Gemini API request failed: ${response.status}`);
+    // A posted transcript is ignored for stored conversations; theirs is what gets cached
+    if (body.conversationId) {
+      return NextResponse.json(await summarizeConversation(llm, body.conversationId));
     }
 
-    const data = await response.json();
-    
-    const summary = data.candidates?.[0]?.content?.parts?.[0]?.text || 'No summary generated';
+    // A bare transcript isn't cached
+    const result = await summarizeTranscript(llm, body.transcript!);
+    if (!result.raw) {
+      const empty: SummaryResult = { summary: null, raw: 'No summary generated' };
+      return NextResponse.json({ ...empty, cached: false });
+    }
     
-    return NextResponse.json({ summary });
+    return NextResponse.json({ ...result, cached: false });
   } catch (error) {
     console.error('Error generating summary:', error);
+    if (error instanceof ConversationNotFoundError) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      );
+    }
+    if (error instanceof LLMRequestError && error.status === 429) {
+      return NextResponse.json(
+        { error: 'Rate limited by LLM provider' },
+        { status: 429 }
+      );
+    }
     return NextResponse.json(
       { error: 'Failed to generate summary' },
       { status: 500 }
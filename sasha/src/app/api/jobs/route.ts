@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { conversationStore } from '@/lib/conversation-store';
+import { getCachedSummary } from '@/lib/conversation-summary';
+import { startJobWorker } from '@/lib/job-worker';
+import { JobStatus, jobStore, JobType } from '@/lib/jobs';
+
+const JOB_STATUSES: JobStatus[] = ['queued', 'running', 'succeeded', 'failed'];
+
+// ?ids=a,b for specific jobs, or ?type=summary&status=queued,running to list
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorize(request, 'viewer');
+    if (auth instanceof NextResponse) return auth;
+
+    const searchParams = request.nextUrl.searchParams;
+    const jobs = await jobStore.list({
+      ids: searchParams.get('ids')?.split(',').filter(Boolean),
+      type: (searchParams.get('type') as JobType) || undefined,
+      statuses: searchParams.get('status')?.split(',').filter(status => JOB_STATUSES.includes(status as JobStatus)) as JobStatus[] | undefined,
+    });
+    return NextResponse.json({ jobs });
+  } catch (error) {
+    console.error('Error listing jobs:', error);
+    return NextResponse.json(
+      { error: 'Failed to list jobs' },
+      { status: 500 }
+    );
+  }
+}
+
+// Queue a summary; if one is already stored for the current transcript it is returned instead
+export async function POST(request: Request) {
+  try {
+    const auth = await authorize(request, 'analyst');
+    if (auth instanceof NextResponse) return auth;
+
+    const { type, conversationId }: { type?: JobType; conversationId?: string } = await request.json();
+
+    if (type !== 'summary' || !conversationId) {
+      return NextResponse.json(
+        { error: 'A job type of summary and a conversation ID are required' },
+        { status: 400 }
+      );
+    }
+
+    if (!(await conversationStore.get(conversationId))) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      );
+    }
+
+    const cached = await getCachedSummary(conversationId);
+    if (cached) {
+      return NextResponse.json({ job: null, result: cached });
+    }
+
+    await startJobWorker();
+    const job = await jobStore.enqueue('summary', `summary:${conversationId}`, { conversation_id: conversationId });
+    return NextResponse.json({ job }, { status: 202 });
+  } catch (error) {
+    console.error('Error queueing job:', error);
+    return NextResponse.json(
+      { error: 'Failed to queue job' },
+      { status: 500 }
+    );
+  }
+}
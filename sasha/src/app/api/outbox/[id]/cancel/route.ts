@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { cancelOutboxEmail } from '@/lib/outbox';
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize(request, 'admin');
+    if (auth instanceof NextResponse) return auth;
+
+    const email = await cancelOutboxEmail((await params).id);
+    if (!email) {
+      return NextResponse.json(
+        { error: 'Only queued emails can be cancelled' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(email);
+  } catch (error) {
+    console.error('Error cancelling email:', error);
+    return NextResponse.json(
+      { error: 'Failed to cancel email' },
+      { status: 500 }
+    );
+  }
+}
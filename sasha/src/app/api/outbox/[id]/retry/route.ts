@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { startJobWorker } from '@/lib/job-worker';
+import { retryOutboxEmail } from '@/lib/outbox';
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize(request, 'admin');
+    if (auth instanceof NextResponse) return auth;
+
+    await startJobWorker();
+    const email = await retryOutboxEmail((await params).id);
+    if (!email) {
+      return NextResponse.json(
+        { error: 'Only failed emails can be retried' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(email);
+  } catch (error) {
+    console.error('Error retrying email:', error);
+    return NextResponse.json(
+      { error: 'Failed to retry email' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { OutboxStatus, outboxStore } from '@/lib/outbox';
+
+const OUTBOX_STATUSES: OutboxStatus[] = ['queued', 'sending', 'sent', 'failed', 'cancelled'];
+
+// ?conversationId=<id> for one conversation's emails, ?status=queued,failed to filter; newest first
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorize(request, 'viewer');
+    if (auth instanceof NextResponse) return auth;
+
+    const searchParams = request.nextUrl.searchParams;
+    const emails = await outboxStore.list({
+      conversationId: searchParams.get('conversationId') || undefined,
+      statuses: searchParams.get('status')?.split(',').filter(status => OUTBOX_STATUSES.includes(status as OutboxStatus)) as OutboxStatus[] | undefined,
+      limit: Number(searchParams.get('limit')) || 100,
+    });
+    return NextResponse.json({ emails });
+  } catch (error) {
+    console.error('Error listing outbox:', error);
+    return NextResponse.json(
+      { error: 'Failed to list outbox' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { startJobWorker } from '@/lib/job-worker';
+import { getLLMClient, rateLimited } from '@/lib/llm';
+import { searchConversations } from '@/lib/search';
+import { hasRole } from '@/lib/session';
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorize(request, 'viewer');
+    if (auth instanceof NextResponse) return auth;
+
+    const query = request.nextUrl.searchParams.get('q')?.trim();
+    const limit = Number(request.nextUrl.searchParams.get('limit')) || undefined;
+
+    if (!query) {
+      return NextResponse.json(
+        { error: 'Query is required' },
+        { status: 400 }
+      );
+    }
+
+    // Embedding spends provider quota, so viewers (and setups without a provider) get keyword-only search
+    const client = hasRole(auth, 'analyst') ? getLLMClient() : null;
+    if (client) {
+      // Conversations without stored vectors are embedded by the job worker, not in this request
+      await startJobWorker();
+    }
+    const results = await searchConversations(query, { limit, llm: client && rateLimited(client) });
+    return NextResponse.json(results);
+  } catch (error) {
+    console.error('Error searching conversations:', error);
+    return NextResponse.json(
+      { error: 'Failed to search conversations' },
+      { status: 500 }
+    );
+  }
+}
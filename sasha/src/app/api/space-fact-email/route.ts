@@ -1,85 +1,147 @@
 import { NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { calendarInviteAttachment, meetingInputError } from '@/lib/calendar-invite';
+import { conversationStore } from '@/lib/conversation-store';
+import { getCachedSummary, summarizeConversation } from '@/lib/conversation-summary';
+import { ConversationNotFoundError } from '@/lib/conversation-sync';
+import { textToHtml } from '@/lib/email-templates';
+import { composeAgendaEmail } from '@/lib/follow-up-email';
+import { startJobWorker } from '@/lib/job-worker';
+import { getLLMClient, LLMRequestError, rateLimited } from '@/lib/llm';
+import { EmailAttachment, EmailMessage, getMailer, invalidAddresses, mailSettings, parseAddresses } from '@/lib/mail';
+import { queueEmail } from '@/lib/outbox';
+import { formatSummaryText, SummaryResult } from '@/lib/summary';
 
 export async function POST(request: Request) {
   try {
-    const geminiApiKey = process.env.GEMINI_API_KEY;
-    const mailgunApiKey = process.env.MAILGUN_API_KEY;
-    const emailRecipient = process.env.EMAIL_RECIPIENTS;
+    const auth = await authorize(request, 'admin');
+    if (auth instanceof NextResponse) return auth;
+
     const emailSubject = process.env.EMAIL_SUBJECT;
     
-    if (!geminiApiKey || !mailgunApiKey || !emailRecipient) {
+    if (!getMailer()) {
       return NextResponse.json(
         { error: 'Required API keys or email configuration not found' },
         { status: 500 }
       );
     }
 
-    const { conversationId, recipient } = await request.json();
+    // recipient, cc and bcc are comma-separated lists; name is who the email greets.
+    // meeting ({ start: ISO date-time, duration_minutes }) attaches a calendar invite.
+    // sendAt (ISO date-time) schedules the email; otherwise it goes out straight away.
+    const { conversationId, recipient, name, templateId, cc, bcc, subject, text, meeting, sendAt } = await request.json();
 
-    // Get conversation details first
-    const conversationResponse = await fetch(`${process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000'}/api/conversations/${conversationId}`);
-    if (!conversationResponse.ok) {
-      throw new Error('Failed to fetch conversation details');
+    if (parseAddresses(recipient).length === 0) {
+      return NextResponse.json(
+        { error: 'At least one recipient is required' },
+        { status: 400 }
+      );
     }
-    
-    const conversationDetails = await conversationResponse.json();
-    
-    // Generate summary using existing endpoint
-    const summaryResponse = await fetch(`${process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000'}/api/generate-summary`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ transcript: conversationDetails.transcript }),
-    });
 
-    if (!summaryResponse.ok) {
-      throw new Error(`Summary generation failed: ${summaryResponse.status}`);
+    const invalid = [recipient, cc, bcc].flatMap(invalidAddresses);
+    if (invalid.length > 0) {
+      return NextResponse.json(
+        { error: `Invalid email addresses: ${invalid.join(', ')}` },
+        { status: 400 }
+      );
     }
 
-    const summaryData = await summaryResponse.json();
-    const summary = summaryData.summary || 'Unable to generate meeting agenda at this time.';
+    const invalidMeeting = meeting && meetingInputError(meeting.start, meeting.duration_minutes);
+    if (invalidMeeting) {
+      return NextResponse.json(
+        { error: invalidMeeting },
+        { status: 400 }
+      );
+    }
 
-    // Send email via Mailgun
-    const emailBody = `Dear ${recipient},
+    if (sendAt !== undefined && (typeof sendAt !== 'string' || Number.isNaN(Date.parse(sendAt)))) {
+      return NextResponse.json(
+        { error: 'Send time must be a date and time' },
+        { status: 400 }
+      );
+    }
 
-I hope this email finds you well! Here are some ideas that I wanted to share about talking to you in our meeting:
+    // Includes trashed conversations, which can't be emailed about until they are restored
+    if (conversationId && !(await conversationStore.get(conversationId))) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      );
+    }
 
-${summary}
+    // The invite carries the call summary, so it makes sense on its own in the calendar
+    const invite = (title: string, summary: SummaryResult | null, fallback: string): EmailAttachment[] | undefined => {
+      if (!meeting) return undefined;
+      const { fromName, fromAddress } = mailSettings();
+      return [calendarInviteAttachment({
+        title,
+        description: (summary && formatSummaryText(summary)) || fallback,
+        start: new Date(meeting.start),
+        duration_minutes: Number(meeting.duration_minutes),
+        organizer: { name: fromName, email: fromAddress },
+        attendees: [recipient, cc].flatMap(parseAddresses),
+      })];
+    };
 
-Looking forward to our discussion!
+    // Sent by the job worker, which retries failures; the dashboard follows its status over /api/events
+    const queue = async (message: EmailMessage) => {
+      await startJobWorker();
+      return queueEmail(message, {
+        conversationId: conversationId || null,
+        sendAt: sendAt ? Date.parse(sendAt) : undefined,
+        actor: auth.email,
+      });
+    };
 
-Best regards,
-Sasha
+    // A previewed (and possibly edited) email is sent exactly as shown
+    if (subject && text) {
+      const summary = meeting && conversationId ? await getCachedSummary(conversationId) : null;
+      const email = await queue({ to: recipient, cc, bcc, subject, text, html: textToHtml(text), attachments: invite(subject, summary, text) });
+      return NextResponse.json({ success: true, recipient, email });
+    }
 
----
-Meeting prep from conversation on ${new Date().toLocaleDateString()}`;
+    if (!conversationId) {
+      return NextResponse.json(
+        { error: 'Conversation ID is required' },
+        { status: 400 }
+      );
+    }
 
-    const formData = new FormData();
-    formData.append('from', 'Sasha <arihant@ai.complete.city>');
-    formData.append('to', recipient || emailRecipient);
-    formData.append('subject', 'Agenda for Our Upcoming Meeting');
-    formData.append('text', emailBody);
+    // Shares the provider's rate limit with the job queue
+    const client = getLLMClient();
+    if (!client) {
+      return NextResponse.json(
+        { error: 'LLM provider not configured' },
+        { status: 500 }
+      );
+    }
 
-    const mailgunResponse = await fetch('https://api.mailgun.net/v3/ai.complete.city/messages', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Basic ${Buffer.from(`api:${mailgunApiKey}`).toString('base64')}`,
-      },
-      body: formData,
-    });
+    // The stored summary if the transcript hasn't changed, as /api/generate-summary would return
+    const summaryData = await summarizeConversation(rateLimited(client), conversationId);
+    const email = await composeAgendaEmail(name || recipient, summaryData, templateId);
 
-    if (!mailgunResponse.ok) {
-      throw new Error(`Mailgun API request failed: ${mailgunResponse.status}`);
-    }
+    const queued = await queue({ to: recipient, cc, bcc, ...email, attachments: invite(email.subject, summaryData, email.text) });
 
     return NextResponse.json({ 
       success: true, 
-      summary,
-      recipient: recipient || emailRecipient 
+      summary: formatSummaryText(summaryData),
+      recipient,
+      email: queued
     });
   } catch (error) {
     console.error('Error sending meeting agenda email:', error);
+    if (error instanceof ConversationNotFoundError) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      );
+    }
+    if (error instanceof LLMRequestError && error.status === 429) {
+      return NextResponse.json(
+        { error: 'Rate limited by LLM provider' },
+        { status: 429 }
+      );
+    }
     return NextResponse.json(
       { error: 'Failed to send meeting agenda email' },
       { status: 500 }
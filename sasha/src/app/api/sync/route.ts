@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { syncConversations } from '@/lib/conversation-sync';
+
+export async function POST(request: Request) {
+  try {
+    const auth = await authorize(request, 'analyst');
+    if (auth instanceof NextResponse) return auth;
+
+    const result = await syncConversations();
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error syncing conversations:', error);
+    return NextResponse.json(
+      { error: 'Failed to sync conversations' },
+      { status: 500 }
+    );
+  }
+}
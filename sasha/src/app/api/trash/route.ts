@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { conversationStore } from '@/lib/conversation-store';
+
+export async function GET(request: Request) {
+  try {
+    const auth = await authorize(request, 'admin');
+    if (auth instanceof NextResponse) return auth;
+
+    return NextResponse.json({ conversations: await conversationStore.listTrash() });
+  } catch (error) {
+    console.error('Error fetching trash:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch trash' },
+      { status: 500 }
+    );
+  }
+}
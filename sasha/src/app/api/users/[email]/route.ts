@@ -0,0 +1,82 @@
+import { NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { isRole } from '@/lib/session';
+import { normalizeEmail, userStore } from '@/lib/users';
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ email: string }> }
+) {
+  try {
+    const auth = await authorize(request, 'admin');
+    if (auth instanceof NextResponse) return auth;
+
+    const email = normalizeEmail(decodeURIComponent((await params).email));
+    const { name, role, password } = await request.json();
+
+    if (role !== undefined && !isRole(role)) {
+      return NextResponse.json(
+        { error: 'Role must be viewer, analyst or admin' },
+        { status: 400 }
+      );
+    }
+
+    // Admins can't lock themselves out
+    if (email === auth.email && role !== undefined && role !== 'admin') {
+      return NextResponse.json(
+        { error: 'You cannot remove your own admin role' },
+        { status: 400 }
+      );
+    }
+
+    const user = await userStore.update(email, { name, role, password });
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(user);
+  } catch (error) {
+    console.error('Error updating user:', error);
+    return NextResponse.json(
+      { error: 'Failed to update user' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ email: string }> }
+) {
+  try {
+    const auth = await authorize(request, 'admin');
+    if (auth instanceof NextResponse) return auth;
+
+    const email = normalizeEmail(decodeURIComponent((await params).email));
+
+    if (email === auth.email) {
+      return NextResponse.json(
+        { error: 'You cannot delete your own account' },
+        { status: 400 }
+      );
+    }
+
+    if (!(await userStore.remove(email))) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting user:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete user' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { isRole } from '@/lib/session';
+import { userStore } from '@/lib/users';
+
+export async function GET(request: Request) {
+  try {
+    const auth = await authorize(request, 'admin');
+    if (auth instanceof NextResponse) return auth;
+
+    return NextResponse.json({ users: await userStore.list() });
+  } catch (error) {
+    console.error('Error listing users:', error);
+    return NextResponse.json(
+      { error: 'Failed to list users' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const auth = await authorize(request, 'admin');
+    if (auth instanceof NextResponse) return auth;
+
+    const { email, name, role, password } = await request.json();
+
+    if (!email || !password || !isRole(role)) {
+      return NextResponse.json(
+        { error: 'Email, password and a role of viewer, analyst or admin are required' },
+        { status: 400 }
+      );
+    }
+
+    if (await userStore.get(email)) {
+      return NextResponse.json(
+        { error: 'User already exists' },
+        { status: 409 }
+      );
+    }
+
+    const user = await userStore.create({ email, name, role, password });
+    return NextResponse.json(user, { status: 201 });
+  } catch (error) {
+    console.error('Error creating user:', error);
+    return NextResponse.json(
+      { error: 'Failed to create user' },
+      { status: 500 }
+    );
+  }
+}
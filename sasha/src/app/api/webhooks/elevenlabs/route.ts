@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import { PostCallWebhookEvent, verifyWebhookSignature } from '@/lib/elevenlabs';
+import { ingestCompletedCall } from '@/lib/post-call';
+
+// Called by ElevenLabs, not by signed-in users: the HMAC signature is the authentication
+export async function POST(request: Request) {
+  try {
+    const secret = process.env.ELEVENLABS_WEBHOOK_SECRET;
+
+    if (!secret) {
+      return NextResponse.json(
+        { error: 'Webhook secret not configured' },
+        { status: 500 }
+      );
+    }
+
+    const rawBody = await request.text();
+    if (!verifyWebhookSignature(rawBody, request.headers.get('elevenlabs-signature'), secret)) {
+      return NextResponse.json(
+        { error: 'Invalid signature' },
+        { status: 401 }
+      );
+    }
+
+    const event: PostCallWebhookEvent = JSON.parse(rawBody);
+
+    // Other event types (e.g. audio) are acknowledged so ElevenLabs doesn't retry them
+    if (event.type !== 'post_call_transcription') {
+      return NextResponse.json({ received: true, ignored: event.type });
+    }
+
+    if (!event.data?.conversation_id || !Array.isArray(event.data.transcript)) {
+      return NextResponse.json(
+        { error: 'Conversation ID and transcript are required' },
+        { status: 400 }
+      );
+    }
+
+    // A payload without these can never be stored, so retrying it would fail forever
+    if (typeof event.data.metadata?.start_time_unix_secs !== 'number' || !event.data.analysis) {
+      return NextResponse.json(
+        { error: 'Call start time and analysis are required' },
+        { status: 400 }
+      );
+    }
+
+    await ingestCompletedCall(event.data);
+    return NextResponse.json({ received: true });
+  } catch (error) {
+    console.error('Error handling ElevenLabs webhook:', error);
+    return NextResponse.json(
+      { error: 'Failed to handle webhook' },
+      { status: 500 }
+    );
+  }
+}
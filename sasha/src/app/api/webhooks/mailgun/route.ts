@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { MailgunWebhookEvent, verifyMailgunWebhook } from '@/lib/mail';
+import { DeliveryStatus, recordDelivery } from '@/lib/outbox';
+
+// Called by Mailgun, not by signed-in users: the HMAC signature is the authentication
+export async function POST(request: Request) {
+  try {
+    const signingKey = process.env.MAILGUN_WEBHOOK_SIGNING_KEY;
+
+    if (!signingKey) {
+      return NextResponse.json(
+        { error: 'Webhook signing key not configured' },
+        { status: 500 }
+      );
+    }
+
+    const event: MailgunWebhookEvent = await request.json();
+    if (!event.signature || !verifyMailgunWebhook(event.signature, signingKey)) {
+      return NextResponse.json(
+        { error: 'Invalid signature' },
+        { status: 401 }
+      );
+    }
+
+    const data = event['event-data'];
+    const delivery: DeliveryStatus | null =
+      data?.event === 'delivered' ? 'delivered' :
+      data?.event === 'failed' && data.severity === 'permanent' ? 'bounced' :
+      data?.event === 'complained' ? 'complained' :
+      null;
+    const messageId = data?.message?.headers?.['message-id'];
+
+    // Other events (opens, clicks, temporary failures Mailgun will retry) are acknowledged so Mailgun doesn't resend them
+    if (!delivery || !messageId) {
+      return NextResponse.json({ received: true, ignored: data?.event ?? 'unknown' });
+    }
+
+    const status = data['delivery-status'];
+    const detail = [status?.code, status?.description || status?.message || data.reason].filter(Boolean).join(' ') || null;
+    const matched = await recordDelivery(messageId, delivery, detail);
+    return NextResponse.json({ received: true, matched });
+  } catch (error) {
+    console.error('Error handling Mailgun webhook:', error);
+    return NextResponse.json(
+      { error: 'Failed to handle webhook' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,73 +1,298 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import Link from 'next/link';
+import { Citation, formatCallTime } from '@/lib/citations';
+import type { Contact } from '@/lib/contacts';
+import type { TrashedConversation } from '@/lib/conversation-store';
+import type { EmailTemplate, RenderedEmail } from '@/lib/email-templates';
+import type { Job } from '@/lib/jobs';
+import type { ConversationCitation, ConversationFilter, CrossAnalysisResult } from '@/lib/cross-analysis';
+import type { ChatMessage } from '@/lib/llm';
+import type { OutboxEmail } from '@/lib/outbox';
+import { extractParticipantName } from '@/lib/participants';
+import type { SearchResponse } from '@/lib/search';
+import { hasRole, Session } from '@/lib/session';
+import type { SummaryResult } from '@/lib/summary';
+import { Conversation, ConversationDetails, ConversationsResponse, TranscriptTurn } from '@/lib/types';
+
+// How long the undo option stays up after a delete
+const UNDO_TIMEOUT_MS = 10000;
+// How often to check on queued summaries
+const JOB_POLL_INTERVAL_MS = 3000;
+
+// Rough client-side check; the server validates addresses again before sending
+const EMAIL_ADDRESS = /^[^\s@,<>]+@[^\s@,<>]+\.[^\s@,<>]+$/;
+
+interface EmailEdit {
+  cc: string;
+  bcc: string;
+  subject: string;
+  text: string;
+}
+
+// Meeting lengths offered for the calendar invite, in minutes
+const MEETING_DURATIONS = [15, 30, 45, 60, 90, 120];
 
-interface TranscriptTurn {
-  role: 'agent' | 'user';
-  message: string;
-  time_in_call_secs: number;
-  conversation_turn_metrics?: Record<string, unknown>;
+// Tomorrow at 10:00 local time, in the format a datetime-local input takes
+function defaultMeetingStart() {
+  const date = new Date();
+  date.setDate(date.getDate() + 1);
+  date.setHours(10, 0, 0, 0);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T10:00`;
 }
 
-interface ConversationAnalysis {
-  call_successful: string;
-  transcript_summary: string | null;
-  gemini_summary?: string | null;
-  evaluation_criteria_results?: Record<string, unknown>;
+// Who to suggest for a conversation's email
+interface ConversationRecipients {
+  participant: string | null;
+  suggested: Contact[];
 }
 
-interface ConversationMetadata {
-  start_time_unix_secs: number;
-  call_duration_secs: number;
-  cost?: number;
+const OUTBOX_STATUS_STYLES: {[key: string]: string} = {
+  queued: 'bg-gray-100 text-gray-700',
+  sending: 'bg-blue-100 text-blue-800',
+  sent: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+  cancelled: 'bg-gray-100 text-gray-500',
+};
+
+// Replace the email if it is listed, otherwise add it; newest first
+function upsertEmail(emails: OutboxEmail[], email: OutboxEmail) {
+  return [email, ...emails.filter(item => item.id !== email.id)].sort((a, b) => b.created_at - a.created_at);
 }
 
-interface ConversationDetails {
-  agent_id: string;
-  conversation_id: string;
-  status: string;
-  transcript: TranscriptTurn[];
-  metadata: ConversationMetadata;
-  analysis: ConversationAnalysis;
-  tool_calls?: Record<string, unknown>[];
+async function fetchConversationEmails(conversationId: string): Promise<OutboxEmail[]> {
+  const response = await fetch(`/api/outbox?${new URLSearchParams({ conversationId })}`);
+  if (!response.ok) {
+    throw new Error('Failed to fetch emails');
+  }
+  return (await response.json()).emails;
 }
 
-interface Conversation {
-  agent_id: string;
-  agent_name: string;
+interface BulkItemResult {
   conversation_id: string;
-  start_time_unix_secs: number;
-  call_duration_secs: number;
-  message_count: number;
-  status: string;
-  call_successful: string;
-  transcript_summary: string | null;
-  call_summary_title: string | null;
-  gemini_summary?: string | null;
+  ok: boolean;
+  error?: string;
+}
+
+// Returns the stored summary straight away if there is one, otherwise the queued job
+async function queueSummary(conversationId: string): Promise<{ job: Job | null; result?: SummaryResult }> {
+  const response = await fetch('/api/jobs', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ type: 'summary', conversationId }),
+  });
+  if (!response.ok) {
+    throw new Error('Failed to queue summary');
+  }
+  return response.json();
+}
+
+async function fetchSummaryJobs(params: Record<string, string>): Promise<Job[]> {
+  const response = await fetch(`/api/jobs?${new URLSearchParams({ type: 'summary', ...params })}`);
+  if (!response.ok) {
+    throw new Error('Failed to fetch jobs');
+  }
+  return (await response.json()).jobs;
 }
 
-interface ConversationsResponse {
-  conversations: Conversation[];
-  next_cursor: string;
-  has_more: boolean;
+function downloadFile(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// Recipient chips with autocomplete from the contact book; invalid addresses are marked in red
+function RecipientInput({ recipients, contacts, onChange }: {
+  recipients: string[];
+  contacts: Contact[];
+  onChange: (recipients: string[]) => void;
+}) {
+  const [query, setQuery] = useState('');
+  const needle = query.trim().toLowerCase();
+  const matches = needle
+    ? contacts.filter(contact => !recipients.includes(contact.email) &&
+        (contact.name.toLowerCase().includes(needle) || contact.email.includes(needle))).slice(0, 5)
+    : [];
+
+  const add = (entries: string) => {
+    const added = entries.split(/[,;\s]+/).map(entry => entry.toLowerCase()).filter(entry => entry && !recipients.includes(entry));
+    if (added.length > 0) onChange([...recipients, ...new Set(added)]);
+    setQuery('');
+  };
+
+  const label = (email: string) => {
+    const contact = contacts.find(item => item.email === email);
+    return contact && contact.name !== email ? `${contact.name} <${email}>` : email;
+  };
+
+  return (
+    <div className="relative">
+      <div className="flex flex-wrap items-center gap-1 w-full px-2 py-1 border border-gray-300 rounded-md focus-within:ring-2 focus-within:ring-blue-500">
+        {recipients.map(email => (
+          <span
+            key={email}
+            title={EMAIL_ADDRESS.test(email) ? email : 'Not a valid email address'}
+            className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs ${
+              EMAIL_ADDRESS.test(email) ? 'bg-blue-100 text-blue-800' : 'bg-red-100 text-red-800'
+            }`}
+          >
+            {label(email)}
+            <button onClick={() => onChange(recipients.filter(item => item !== email))} className="ml-1 font-bold" aria-label={`Remove ${email}`}>
+              ×
+            </button>
+          </span>
+        ))}
+        <input
+          value={query}
+          onChange={(e) => /[,;]/.test(e.target.value) ? add(e.target.value) : setQuery(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && needle) {
+              e.preventDefault();
+              add(EMAIL_ADDRESS.test(needle) || matches.length === 0 ? needle : matches[0].email);
+            } else if (e.key === 'Backspace' && !query && recipients.length > 0) {
+              onChange(recipients.slice(0, -1));
+            }
+          }}
+          onBlur={() => needle && add(needle)}
+          placeholder={recipients.length === 0 ? 'Name or email address' : ''}
+          className="flex-1 min-w-[10rem] py-1 text-gray-900 placeholder-gray-600 focus:outline-none"
+        />
+      </div>
+      {matches.length > 0 && (
+        <ul className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-md shadow-lg">
+          {matches.map(contact => (
+            <li key={contact.email}>
+              <button
+                // mousedown so the input's blur doesn't add the half-typed query first
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  add(contact.email);
+                }}
+                className="w-full text-left px-3 py-2 text-sm hover:bg-gray-50"
+              >
+                <span className="text-gray-900">{contact.name}</span>
+                <span className="ml-2 text-gray-500">{contact.email}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+type ThreadMessage = ChatMessage & {
+  citations?: Citation[];
+  // Set when the transcript was too long and only the most relevant sections were used
+  chunking?: { applied: boolean; chunks_used?: number; chunks_total?: number };
+};
+
+async function fetchConversationsPage(cursor?: string | null): Promise<ConversationsResponse> {
+  const params = new URLSearchParams();
+  if (cursor) {
+    params.set('cursor', cursor);
+  }
+  const response = await fetch(`/api/conversations?${params}`);
+  if (!response.ok) {
+    throw new Error('Failed to fetch conversations');
+  }
+  return response.json();
+}
+
+async function fetchSession(): Promise<Session> {
+  const response = await fetch('/api/auth/me');
+  if (!response.ok) {
+    throw new Error('Failed to fetch session');
+  }
+  return response.json();
+}
+
+// Start of the dashboard's date range filter, in unix seconds
+function dateFilterCutoff(dateFilter: string): number | undefined {
+  const now = Date.now() / 1000;
+  return ({
+    'today': now - 24 * 60 * 60,
+    'week': now - 7 * 24 * 60 * 60,
+    'month': now - 30 * 24 * 60 * 60
+  } as {[key: string]: number})[dateFilter];
+}
+
+// Append a page to the list, skipping anything already loaded, newest first
+function mergeConversations(existing: Conversation[], incoming: Conversation[]) {
+  const loadedIds = new Set(existing.map(conv => conv.conversation_id));
+  return [...existing, ...incoming.filter(conv => !loadedIds.has(conv.conversation_id))].sort(
+    (a, b) => b.start_time_unix_secs - a.start_time_unix_secs
+  );
+}
+
+// Like mergeConversations, but loaded conversations take the incoming fields (status, tags, ...)
+function upsertConversations(existing: Conversation[], incoming: Conversation[]) {
+  const updates = new Map(incoming.map(conv => [conv.conversation_id, conv]));
+  return mergeConversations(
+    existing.map(conv => updates.has(conv.conversation_id) ? { ...conv, ...updates.get(conv.conversation_id) } : conv),
+    incoming
+  );
 }
 
 export default function Dashboard() {
   const [conversations, setConversations] = useState<Conversation[]>([]);
   const [filteredConversations, setFilteredConversations] = useState<Conversation[]>([]);
-  const [viewMode, setViewMode] = useState<'last' | 'all'>('last');
+  const [viewMode, setViewMode] = useState<'last' | 'all' | 'trash'>('last');
+  const [trash, setTrash] = useState<TrashedConversation[]>([]);
+  const [notice, setNotice] = useState<{ message: string; undo?: Conversation[] } | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [bulkProgress, setBulkProgress] = useState<{ label: string; done: number; total: number } | null>(null);
+  const [bulkReport, setBulkReport] = useState<{ label: string; results: BulkItemResult[] } | null>(null);
+  const noticeTimeout = useRef<ReturnType<typeof setTimeout> | null>(null);
   const [loading, setLoading] = useState(true);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const loadingMoreRef = useRef(false);
+  const conversationsRef = useRef<Conversation[]>([]);
+  // Arrived live since the page loaded, until the card is hovered
+  const [newConversationIds, setNewConversationIds] = useState<Set<string>>(new Set());
+  const analysisControllers = useRef<{[key: string]: AbortController}>({});
+  const chatThreadRef = useRef<HTMLDivElement>(null);
   const [error, setError] = useState<string | null>(null);
-  const [, setCopyStatus] = useState<string | null>(null);
+  const [session, setSession] = useState<Session | null>(null);
   const [expandedQA, setExpandedQA] = useState<string | null>(null);
   const [questions, setQuestions] = useState<{[key: string]: string}>({});
-  const [answers, setAnswers] = useState<{[key: string]: string}>({});
+  const [chats, setChats] = useState<{[key: string]: ThreadMessage[]}>({});
+  const [highlightedTurns, setHighlightedTurns] = useState<{[key: string]: number[]}>({});
+  const [focusedTurn, setFocusedTurn] = useState<string | null>(null);
   const [loadingAnalysis, setLoadingAnalysis] = useState<{[key: string]: boolean}>({});
-  const [loadingSummary, setLoadingSummary] = useState<{[key: string]: boolean}>({});
-  const [geminiSummaries, setGeminiSummaries] = useState<{[key: string]: string}>({});
+  // Latest summary job per conversation; dropped once it succeeds
+  const [summaryJobs, setSummaryJobs] = useState<{[key: string]: Job}>({});
+  const [geminiSummaries, setGeminiSummaries] = useState<{[key: string]: SummaryResult}>({});
   const [emailModal, setEmailModal] = useState<{conversationId: string; isOpen: boolean} | null>(null);
-  const [emailRecipient, setEmailRecipient] = useState('');
-  const [emailPreview, setEmailPreview] = useState('');
+  const [emailRecipients, setEmailRecipients] = useState<string[]>([]);
+  const [emailContacts, setEmailContacts] = useState<Contact[]>([]);
+  const [conversationRecipients, setConversationRecipients] = useState<ConversationRecipients | null>(null);
+  // Empty to send straight away, otherwise a datetime-local value
+  const [emailSendAt, setEmailSendAt] = useState('');
+  // Outbox entries per conversation, once its email history has been opened
+  const [conversationEmails, setConversationEmails] = useState<{[key: string]: OutboxEmail[]}>({});
+  const [showingEmails, setShowingEmails] = useState<{[key: string]: boolean}>({});
+  // Emails sent from this tab that haven't gone out yet, to report how they went
+  const pendingEmailIds = useRef(new Set<string>());
+  // The generated draft, kept to compare against what the user edited
+  const [emailPreview, setEmailPreview] = useState<RenderedEmail | null>(null);
+  // Exactly what will be sent
+  const [emailEdit, setEmailEdit] = useState<EmailEdit | null>(null);
+  const [showGeneratedDraft, setShowGeneratedDraft] = useState(false);
+  const [emailPreviewError, setEmailPreviewError] = useState<string | null>(null);
+  const [emailTemplates, setEmailTemplates] = useState<EmailTemplate[]>([]);
+  // Empty for the server's default template
+  const [emailTemplateId, setEmailTemplateId] = useState('');
+  // Attaches a calendar invite for the meeting the agenda is for
+  const [emailMeeting, setEmailMeeting] = useState({ enabled: false, start: '', duration: '30' });
   const [loadingEmailPreview, setLoadingEmailPreview] = useState(false);
   const [showingTranscript, setShowingTranscript] = useState<{[key: string]: boolean}>({});
   const [transcripts, setTranscripts] = useState<{[key: string]: TranscriptTurn[]}>({});
@@ -81,36 +306,11 @@ export default function Dashboard() {
   const [agentFilter, setAgentFilter] = useState('all');
   const [successFilter, setSuccessFilter] = useState('all');
   const [dateFilter, setDateFilter] = useState('all');
-
-  // Extract participant name from transcript
-  const extractParticipantName = (transcript: TranscriptTurn[]): string => {
-    if (!transcript || transcript.length === 0) return '';
-    
-    // Look at first few user messages for introductions
-    const userMessages = transcript.filter(turn => turn.role === 'user').slice(0, 3);
-    
-    for (const turn of userMessages) {
-      // Common introduction patterns
-      const patterns = [
-        /(?:hi|hello|hey)(?:,)?\s+(?:i'm|i am|this is)\s+([a-z]+(?:\s+[a-z]+)?)/i,
-        /(?:my name is|i'm|i am)\s+([a-z]+(?:\s+[a-z]+)?)/i,
-        /(?:this is|speaking with|talking to)\s+([a-z]+(?:\s+[a-z]+)?)/i,
-        /([a-z]+)\s+(?:here|speaking)/i
-      ];
-      
-      for (const pattern of patterns) {
-        const match = turn.message.match(pattern);
-        if (match && match[1]) {
-          // Capitalize first letter of each word
-          return match[1].split(' ').map(word => 
-            word.charAt(0).toUpperCase() + word.slice(1).toLowerCase()
-          ).join(' ');
-        }
-      }
-    }
-    
-    return '';
-  };
+  const [tagFilter, setTagFilter] = useState('all');
+  const [searchResults, setSearchResults] = useState<SearchResponse | null>(null);
+  const [crossQuestion, setCrossQuestion] = useState('');
+  const [crossAnalysis, setCrossAnalysis] = useState<CrossAnalysisResult | null>(null);
+  const [loadingCrossAnalysis, setLoadingCrossAnalysis] = useState(false);
 
   const applyFilters = useCallback(() => {
     let filtered = conversations;
@@ -119,9 +319,15 @@ export default function Dashboard() {
       filtered = conversations.length > 0 ? [conversations[0]] : [];
     } else {
       if (searchTerm) {
+        // Transcript and summary matches from /api/search, ranked first
+        const ranked = searchResults?.query === searchTerm.trim() ? searchResults.results : [];
+        const rank = new Map(ranked.map((result, index) => [result.conversation_id, index]));
         filtered = filtered.filter(conv => 
+          rank.has(conv.conversation_id) ||
           (conv.call_summary_title?.toLowerCase().includes(searchTerm.toLowerCase())) ||
           (conv.agent_name.toLowerCase().includes(searchTerm.toLowerCase()))
+        ).sort((a, b) =>
+          (rank.get(a.conversation_id) ?? ranked.length) - (rank.get(b.conversation_id) ?? ranked.length)
         );
       }
 
@@ -137,13 +343,12 @@ export default function Dashboard() {
         filtered = filtered.filter(conv => conv.call_successful === successFilter);
       }
 
+      if (tagFilter !== 'all') {
+        filtered = filtered.filter(conv => conv.tags?.includes(tagFilter));
+      }
+
       if (dateFilter !== 'all') {
-        const now = Date.now() / 1000;
-        const cutoff = {
-          'today': now - 24 * 60 * 60,
-          'week': now - 7 * 24 * 60 * 60,
-          'month': now - 30 * 24 * 60 * 60
-        }[dateFilter];
+        const cutoff = dateFilterCutoff(dateFilter);
         
         if (cutoff) {
           filtered = filtered.filter(conv => conv.start_time_unix_secs >= cutoff);
@@ -152,7 +357,36 @@ export default function Dashboard() {
     }
 
     setFilteredConversations(filtered);
-  }, [conversations, searchTerm, statusFilter, agentFilter, successFilter, dateFilter, viewMode]);
+  }, [conversations, searchTerm, searchResults, statusFilter, agentFilter, successFilter, dateFilter, tagFilter, viewMode]);
+
+  // Debounced full-text and semantic search over every stored transcript
+  useEffect(() => {
+    const query = searchTerm.trim();
+    if (viewMode !== 'all' || query.length < 3) {
+      setSearchResults(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/search?${new URLSearchParams({ q: query })}`, { signal: controller.signal });
+        if (!response.ok) {
+          throw new Error('Failed to search conversations');
+        }
+        setSearchResults(await response.json());
+      } catch (err) {
+        if (!controller.signal.aborted) {
+          console.error('Error searching conversations:', err);
+        }
+      }
+    }, 300);
+
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [searchTerm, viewMode]);
 
   useEffect(() => {
     fetchConversations();
@@ -167,34 +401,121 @@ export default function Dashboard() {
     return agents.sort();
   };
 
+  const getUniqueTags = () => {
+    return [...new Set(conversations.flatMap(conv => conv.tags ?? []))].sort();
+  };
+
   const clearFilters = () => {
     setSearchTerm('');
     setStatusFilter('all');
     setAgentFilter('all');
     setSuccessFilter('all');
     setDateFilter('all');
+    setTagFilter('all');
+  };
+
+  conversationsRef.current = conversations;
+
+  const receiveConversations = useCallback((incoming: Conversation[]) => {
+    const loadedIds = new Set(conversationsRef.current.map(conv => conv.conversation_id));
+    const added = incoming.filter(conv => !loadedIds.has(conv.conversation_id)).map(conv => conv.conversation_id);
+    if (added.length > 0) {
+      setNewConversationIds(prev => new Set([...prev, ...added]));
+    }
+    setConversations(prev => upsertConversations(prev, incoming));
+  }, []);
+
+  const clearNewIndicator = (conversationId: string) => {
+    if (!newConversationIds.has(conversationId)) return;
+    setNewConversationIds(prev => {
+      const next = new Set(prev);
+      next.delete(conversationId);
+      return next;
+    });
   };
 
+  // Live updates from the server. EventSource reconnects by itself; anything missed
+  // while disconnected is caught up from the first page.
+  const signedIn = session !== null;
+  useEffect(() => {
+    if (!signedIn) return;
+
+    const source = new EventSource('/api/events');
+    let disconnected = false;
+
+    source.addEventListener('conversation.upserted', (message) => {
+      const { conversation }: { conversation: Conversation } = JSON.parse(message.data);
+      receiveConversations([conversation]);
+    });
+    source.addEventListener('conversation.removed', (message) => {
+      const { conversation_id }: { conversation_id: string } = JSON.parse(message.data);
+      setConversations(prev => prev.filter(conv => conv.conversation_id !== conversation_id));
+    });
+    source.addEventListener('summary.completed', (message) => {
+      const { conversation_id, result }: { conversation_id: string; result: SummaryResult } = JSON.parse(message.data);
+      setGeminiSummaries(prev => ({ ...prev, [conversation_id]: result }));
+      setSummaryJobs(prev => {
+        const next = { ...prev };
+        delete next[conversation_id];
+        return next;
+      });
+    });
+    source.addEventListener('email.updated', (message) => {
+      const { email }: { email: OutboxEmail } = JSON.parse(message.data);
+      const conversationId = email.conversation_id;
+      if (conversationId) {
+        setConversationEmails(prev => prev[conversationId] ? { ...prev, [conversationId]: upsertEmail(prev[conversationId], email) } : prev);
+      }
+      if (pendingEmailIds.current.has(email.id) && (email.status === 'sent' || email.status === 'failed')) {
+        pendingEmailIds.current.delete(email.id);
+        showNotice(email.status === 'sent'
+          ? `Email sent to ${email.message.to}.`
+          : `Email to ${email.message.to} failed: ${email.last_error}`);
+      }
+    });
+    source.onerror = () => {
+      disconnected = true;
+    };
+    source.onopen = async () => {
+      if (!disconnected) return;
+      disconnected = false;
+      try {
+        receiveConversations((await fetchConversationsPage()).conversations);
+      } catch (err) {
+        console.error('Error catching up on conversations:', err);
+      }
+    };
+
+    return () => source.close();
+  }, [signedIn, receiveConversations]);
+
   const fetchConversations = async () => {
     try {
-      const response = await fetch('/api/conversations');
-      if (!response.ok) {
-        throw new Error('Failed to fetch conversations');
-      }
-      const data: ConversationsResponse = await response.json();
-      const sortedConversations = data.conversations.sort(
-        (a, b) => b.start_time_unix_secs - a.start_time_unix_secs
-      );
+      const [data, currentSession] = await Promise.all([fetchConversationsPage(), fetchSession()]);
+      setSession(currentSession);
+      const sortedConversations = mergeConversations([], data.conversations);
       setConversations(sortedConversations);
       setFilteredConversations(sortedConversations);
+      setNextCursor(data.has_more ? data.next_cursor : null);
       
-      // Auto-generate summaries for recent conversations only (first 5)
-      // with rate limiting (staggered requests)
-      sortedConversations.slice(0, 5).forEach((conversation, index) => {
-        setTimeout(() => {
-          generateGeminiSummary(conversation.conversation_id);
-        }, index * 3000); // 3 second delay between each request
-      });
+      // Summaries still queued, running or failed from earlier visits
+      const jobs: {[key: string]: Job} = {};
+      const withSummary = new Set(sortedConversations.filter(conv => conv.gemini_summary).map(conv => conv.conversation_id));
+      for (const job of await fetchSummaryJobs({ status: 'queued,running,failed' })) {
+        if (!withSummary.has(job.payload.conversation_id)) {
+          jobs[job.payload.conversation_id] = job;
+        }
+      }
+      setSummaryJobs(jobs);
+
+      // Auto-generate summaries for recent conversations only (first 5) that don't
+      // have a stored one yet; the server queue handles rate limiting.
+      // Viewers can't trigger generation.
+      if (hasRole(currentSession, 'analyst')) {
+        sortedConversations.slice(0, 5)
+          .filter(conv => !conv.gemini_summary && !jobs[conv.conversation_id])
+          .forEach(conv => generateGeminiSummary(conv.conversation_id));
+      }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred');
     } finally {
@@ -202,7 +523,40 @@ export default function Dashboard() {
     }
   };
 
+  // Follow next_cursor until ElevenLabs reports no more pages (or just one page); resolves to what was added
+  const loadMoreConversations = useCallback(async (allPages: boolean): Promise<Conversation[]> => {
+    if (!nextCursor || loadingMoreRef.current) return [];
 
+    loadingMoreRef.current = true;
+    setLoadingMore(true);
+    let cursor: string | null = nextCursor;
+    const loaded: Conversation[] = [];
+    try {
+      do {
+        const data = await fetchConversationsPage(cursor);
+        setConversations(prev => mergeConversations(prev, data.conversations));
+        loaded.push(...data.conversations);
+        cursor = data.has_more ? data.next_cursor : null;
+      } while (allPages && cursor);
+    } catch (err) {
+      console.error('Error loading more conversations:', err);
+    } finally {
+      setNextCursor(cursor);
+      loadingMoreRef.current = false;
+      setLoadingMore(false);
+    }
+    return loaded;
+  }, [nextCursor]);
+
+  const hasActiveFilters = searchTerm !== '' || statusFilter !== 'all' || agentFilter !== 'all' ||
+    successFilter !== 'all' || dateFilter !== 'all' || tagFilter !== 'all';
+
+  // Filters have to see every conversation, so pull in the remaining pages once any is set
+  useEffect(() => {
+    if (viewMode === 'all' && hasActiveFilters) {
+      loadMoreConversations(true);
+    }
+  }, [viewMode, hasActiveFilters, loadMoreConversations]);
 
   const getFormattedDate = (unixSecs: number) => {
     const date = new Date(unixSecs * 1000);
@@ -216,195 +570,533 @@ export default function Dashboard() {
   };
 
 
+  // Replace or extend the assistant message currently being streamed
+  const updateLastMessage = (conversationId: string, update: (message: ThreadMessage) => Partial<ThreadMessage>) => {
+    setChats(prev => {
+      const thread = prev[conversationId] || [];
+      const last = thread[thread.length - 1];
+      if (!last || last.role !== 'assistant') return prev;
+      return { ...prev, [conversationId]: [...thread.slice(0, -1), { ...last, ...update(last) }] };
+    });
+  };
+
   const askQuestion = async (conversationId: string) => {
     const question = questions[conversationId];
     if (!question?.trim()) return;
 
+    const controller = new AbortController();
+    analysisControllers.current[conversationId] = controller;
     setLoadingAnalysis(prev => ({ ...prev, [conversationId]: true }));
+    setQuestions(prev => ({ ...prev, [conversationId]: '' }));
+    setChats(prev => ({
+      ...prev,
+      [conversationId]: [
+        ...(prev[conversationId] || []),
+        { role: 'user', content: question },
+        { role: 'assistant', content: '' },
+      ],
+    }));
 
     try {
-      const conversationResponse = await fetch(`/api/conversations/${conversationId}`);
-      if (!conversationResponse.ok) {
-        throw new Error('Failed to fetch conversation details');
-      }
-      const conversationData: ConversationDetails = await conversationResponse.json();
-
+      // The server adds the saved thread for this conversation as prior turns
       const analysisResponse = await fetch('/api/analyze', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          transcript: conversationData.transcript,
+          conversationId,
           question: question,
+          stream: true,
         }),
+        signal: controller.signal,
       });
 
-      if (!analysisResponse.ok) {
+      if (!analysisResponse.ok || !analysisResponse.body) {
         throw new Error('Failed to analyze transcript');
       }
 
-      const { answer } = await analysisResponse.json();
-      setAnswers(prev => ({ ...prev, [conversationId]: answer }));
+      // Render the answer as tokens arrive; citations come in a final event
+      const reader = analysisResponse.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        for (const line of lines.filter(Boolean)) {
+          const event = JSON.parse(line);
+          if (event.type === 'context') {
+            updateLastMessage(conversationId, () => ({ chunking: event.chunking }));
+          } else if (event.type === 'token') {
+            updateLastMessage(conversationId, message => ({ content: message.content + event.text }));
+          } else if (event.type === 'citations') {
+            updateLastMessage(conversationId, () => ({ citations: event.citations }));
+          }
+        }
+      }
     } catch (err) {
-      console.error('Error asking question:', err);
-      setAnswers(prev => ({ ...prev, [conversationId]: 'Error analyzing transcript. Please try again.' }));
+      if (controller.signal.aborted) {
+        // Keep whatever streamed in before the user cancelled
+        updateLastMessage(conversationId, message => ({ content: `${message.content} [cancelled]`.trim() }));
+      } else {
+        console.error('Error asking question:', err);
+        updateLastMessage(conversationId, () => ({ content: 'Error analyzing transcript. Please try again.' }));
+      }
     } finally {
+      delete analysisControllers.current[conversationId];
       setLoadingAnalysis(prev => ({ ...prev, [conversationId]: false }));
     }
   };
 
+  // One question over every stored conversation matching the current filters
+  const askAcrossConversations = async () => {
+    if (!crossQuestion.trim()) return;
+
+    const filter: ConversationFilter = {
+      agent: agentFilter !== 'all' ? agentFilter : undefined,
+      success: successFilter !== 'all' ? successFilter : undefined,
+      status: statusFilter !== 'all' ? statusFilter : undefined,
+      startAfter: dateFilterCutoff(dateFilter),
+    };
+
+    setLoadingCrossAnalysis(true);
+    try {
+      const response = await fetch('/api/analyze/conversations', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ question: crossQuestion, filter }),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to analyze conversations');
+      }
+
+      setCrossAnalysis(await response.json());
+    } catch (err) {
+      console.error('Error analyzing conversations:', err);
+      setCrossAnalysis({ answer: 'Error analyzing conversations. Please try again.', citations: [], conversations: [], matching_total: 0 });
+    } finally {
+      setLoadingCrossAnalysis(false);
+    }
+  };
+
+  const cancelQuestion = (conversationId: string) => {
+    analysisControllers.current[conversationId]?.abort();
+  };
+
+  const fetchChat = async (conversationId: string) => {
+    try {
+      const response = await fetch(`/api/conversations/${conversationId}/chat`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch chat history');
+      }
+      const { messages }: { messages: ThreadMessage[] } = await response.json();
+      setChats(prev => ({ ...prev, [conversationId]: prev[conversationId] || messages }));
+    } catch (error) {
+      console.error('Error fetching chat history:', error);
+    }
+  };
+
+  const clearChat = async (conversationId: string) => {
+    try {
+      const response = await fetch(`/api/conversations/${conversationId}/chat`, {
+        method: 'DELETE',
+      });
+      if (response.ok) {
+        setChats(prev => ({ ...prev, [conversationId]: [] }));
+      }
+    } catch (error) {
+      console.error('Error clearing chat history:', error);
+    }
+  };
+
   const toggleQA = (conversationId: string) => {
+    if (expandedQA !== conversationId && !chats[conversationId]) {
+      fetchChat(conversationId);
+    }
     setExpandedQA(expandedQA === conversationId ? null : conversationId);
   };
 
-  const deleteConversation = async (conversationId: string) => {
+  // Open the transcript with the given turns highlighted, scrolled to the focused one
+  const showTranscriptTurns = async (conversationId: string, turnIndices: number[], focusIndex: number) => {
+    if (!showingTranscript[conversationId]) {
+      await toggleTranscript(conversationId);
+    }
+    setHighlightedTurns(prev => ({ ...prev, [conversationId]: turnIndices }));
+    setFocusedTurn(`turn-${conversationId}-${focusIndex}`);
+  };
+
+  const showCitation = (conversationId: string, citations: Citation[], citation: Citation) =>
+    showTranscriptTurns(conversationId, citations.map(c => c.turn_index), citation.turn_index);
+
+  const showConversationCitation = (citations: ConversationCitation[], citation: ConversationCitation) =>
+    showCitation(citation.conversation_id, citations.filter(c => c.conversation_id === citation.conversation_id), citation);
+
+  useEffect(() => {
+    if (focusedTurn) {
+      document.getElementById(focusedTurn)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }
+  }, [focusedTurn, transcripts, showingTranscript]);
+
+  // Keep the open thread scrolled to the newest message
+  useEffect(() => {
+    chatThreadRef.current?.scrollTo({ top: chatThreadRef.current.scrollHeight });
+  }, [chats, expandedQA]);
+
+  const signOut = async () => {
+    await fetch('/api/auth/logout', { method: 'POST' });
+    window.location.href = '/login';
+  };
+
+  const showNotice = (message: string, undo?: Conversation[]) => {
+    if (noticeTimeout.current) {
+      clearTimeout(noticeTimeout.current);
+    }
+    setNotice({ message, undo });
+    noticeTimeout.current = setTimeout(() => setNotice(null), UNDO_TIMEOUT_MS);
+  };
+
+  // Soft delete: the conversation goes to the trash and can be restored until it is purged
+  const deleteConversation = async (conversation: Conversation) => {
+    const { conversation_id: conversationId } = conversation;
+    if (!window.confirm(`Move "${conversation.call_summary_title || 'Untitled Conversation'}" to the trash?`)) {
+      return;
+    }
+
     try {
       const response = await fetch(`/api/conversations/${conversationId}`, {
         method: 'DELETE',
       });
       
-      if (response.ok) {
-        setConversations(prev => prev.filter(conv => conv.conversation_id !== conversationId));
-        setFilteredConversations(prev => prev.filter(conv => conv.conversation_id !== conversationId));
+      if (!response.ok) {
+        throw new Error('Failed to delete conversation');
       }
+
+      setConversations(prev => prev.filter(conv => conv.conversation_id !== conversationId));
+      setFilteredConversations(prev => prev.filter(conv => conv.conversation_id !== conversationId));
+      showNotice('Conversation moved to trash.', [conversation]);
     } catch (error) {
       console.error('Error deleting conversation:', error);
+      showNotice('Could not delete the conversation. Please try again.');
+    }
+  };
+
+  const restoreConversations = async (toRestore: Conversation[]) => {
+    const restored: Conversation[] = [];
+    for (const conversation of toRestore) {
+      try {
+        const response = await fetch(`/api/conversations/${conversation.conversation_id}/restore`, {
+          method: 'POST',
+        });
+
+        if (!response.ok) {
+          throw new Error('Failed to restore conversation');
+        }
+        restored.push(conversation);
+      } catch (error) {
+        console.error('Error restoring conversation:', error);
+      }
     }
+
+    const restoredIds = new Set(restored.map(conv => conv.conversation_id));
+    setConversations(prev => mergeConversations(prev, restored));
+    setTrash(prev => prev.filter(conv => !restoredIds.has(conv.conversation_id)));
+    showNotice(restored.length === toRestore.length
+      ? `${restored.length === 1 ? 'Conversation' : `${restored.length} conversations`} restored.`
+      : `Restored ${restored.length} of ${toRestore.length} conversations. Please try again.`);
   };
 
+  const toggleSelected = (conversationId: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (!next.delete(conversationId)) {
+        next.add(conversationId);
+      }
+      return next;
+    });
+  };
 
-  const generateGeminiSummary = async (conversationId: string, retryCount = 0) => {
-    if (geminiSummaries[conversationId] || loadingSummary[conversationId]) {
+  // Every conversation matching the current filters, not just the ones scrolled into view.
+  // A filter already pulls in every page; without one the remaining pages are loaded first, and all of them match.
+  const selectAllMatching = async (checked: boolean) => {
+    if (!checked) {
+      setSelected(new Set());
       return;
     }
+    const loaded = hasActiveFilters ? [] : await loadMoreConversations(true);
+    setSelected(new Set([...filteredConversations, ...loaded].map(conv => conv.conversation_id)));
+  };
+
+  const selectedIds = () => conversations.map(conv => conv.conversation_id).filter(id => selected.has(id));
+
+  // Run an action over each selected conversation in turn, tracking progress and per-item results
+  const runBulk = async (label: string, ids: string[], action: (conversationId: string) => Promise<void>) => {
+    const results: BulkItemResult[] = [];
+    setBulkReport(null);
+    setBulkProgress({ label, done: 0, total: ids.length });
+    for (const conversationId of ids) {
+      try {
+        await action(conversationId);
+        results.push({ conversation_id: conversationId, ok: true });
+      } catch (error) {
+        results.push({ conversation_id: conversationId, ok: false, error: error instanceof Error ? error.message : 'Failed' });
+      }
+      setBulkProgress({ label, done: results.length, total: ids.length });
+    }
+    setBulkProgress(null);
+    setBulkReport({ label, results });
+    return results;
+  };
 
+  // Single-request actions report their per-item results the same way
+  const runBulkRequest = async (label: string, ids: string[], request: () => Promise<BulkItemResult[]>) => {
+    setBulkReport(null);
+    setBulkProgress({ label, done: 0, total: ids.length });
     try {
-      setLoadingSummary(prev => ({ ...prev, [conversationId]: true }));
-      
-      // Fetch conversation details to get transcript
-      const response = await fetch(`/api/conversations/${conversationId}`);
+      setBulkReport({ label, results: await request() });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed';
+      setBulkReport({ label, results: ids.map(id => ({ conversation_id: id, ok: false, error: message })) });
+    } finally {
+      setBulkProgress(null);
+    }
+  };
+
+  // Queued server-side; the cards show each job's progress
+  const bulkGenerateSummaries = () => runBulk('Queue summaries', selectedIds(), async conversationId => {
+    const { job, result } = await queueSummary(conversationId);
+    if (result) {
+      setGeminiSummaries(prev => ({ ...prev, [conversationId]: result }));
+    } else if (job) {
+      setSummaryJobs(prev => ({ ...prev, [conversationId]: job }));
+    }
+  });
+
+  const bulkDelete = async () => {
+    const ids = selectedIds();
+    if (!window.confirm(`Move ${ids.length} conversations to the trash?`)) {
+      return;
+    }
+
+    const results = await runBulk('Delete', ids, async conversationId => {
+      const response = await fetch(`/api/conversations/${conversationId}`, {
+        method: 'DELETE',
+      });
       if (!response.ok) {
-        throw new Error('Failed to fetch conversation details');
+        throw new Error('Failed to delete conversation');
       }
-      
-      const conversationDetails: ConversationDetails = await response.json();
-      
-      // Generate summary using Gemini
-      const summaryResponse = await fetch('/api/generate-summary', {
+    });
+
+    const deletedIds = new Set(results.filter(result => result.ok).map(result => result.conversation_id));
+    const deleted = conversations.filter(conv => deletedIds.has(conv.conversation_id));
+    setConversations(prev => prev.filter(conv => !deletedIds.has(conv.conversation_id)));
+    setSelected(prev => new Set([...prev].filter(id => !deletedIds.has(id))));
+    if (deleted.length > 0) {
+      showNotice(`${deleted.length} conversations moved to trash.`, deleted);
+    }
+  };
+
+  // "urgent" adds a tag, "-urgent" removes it
+  const bulkTag = () => {
+    const ids = selectedIds();
+    const input = window.prompt(`Tag ${ids.length} conversations (prefix with - to remove a tag):`)?.trim();
+    if (!input) return;
+
+    const remove = input.startsWith('-');
+    const tag = input.replace(/^-/, '');
+    return runBulkRequest(remove ? `Remove tag "${tag}"` : `Tag "${tag}"`, ids, async () => {
+      const response = await fetch('/api/conversations/tags', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ transcript: conversationDetails.transcript }),
+        body: JSON.stringify({ conversationIds: ids, [remove ? 'remove' : 'add']: [tag] }),
       });
-      
-      if (!summaryResponse.ok) {
-        // Handle rate limiting with exponential backoff
-        if (summaryResponse.status === 429 && retryCount < 3) {
-          const delay = Math.pow(2, retryCount) * 5000; // 5s, 10s, 20s
-          setTimeout(() => {
-            setLoadingSummary(prev => ({ ...prev, [conversationId]: false }));
-            generateGeminiSummary(conversationId, retryCount + 1);
-          }, delay);
-          return;
-        }
-        throw new Error('Failed to generate summary');
+      if (!response.ok) {
+        throw new Error('Failed to tag conversations');
       }
-      
-      const { summary } = await summaryResponse.json();
-      setGeminiSummaries(prev => ({ ...prev, [conversationId]: summary }));
-    } catch (error) {
-      console.error('Error generating summary:', error);
-      // Set a fallback message for failed summaries
-      if (retryCount >= 3) {
-        setGeminiSummaries(prev => ({ 
-          ...prev, 
-          [conversationId]: '**Issue:** Unable to generate summary due to rate limiting\n\n**Goal:** Please try again later\n\n**Next Steps:** Refresh the page or click to manually generate summary'
-        }));
+
+      const { results }: { results: (BulkItemResult & { tags?: string[] })[] } = await response.json();
+      const tags = new Map(results.filter(result => result.tags).map(result => [result.conversation_id, result.tags]));
+      setConversations(prev => prev.map(conv => tags.has(conv.conversation_id) ? { ...conv, tags: tags.get(conv.conversation_id) } : conv));
+      return results;
+    });
+  };
+
+  const bulkExport = (format: 'csv' | 'json') => {
+    const ids = selectedIds();
+    return runBulkRequest(`Export ${format.toUpperCase()}`, ids, async () => {
+      const response = await fetch('/api/conversations/export', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ conversationIds: ids, format }),
+      });
+      if (!response.ok) {
+        throw new Error('Failed to export conversations');
       }
-    } finally {
-      setLoadingSummary(prev => ({ ...prev, [conversationId]: false }));
-    }
+
+      downloadFile(await response.blob(), `conversations-${new Date().toISOString().slice(0, 10)}.${format}`);
+      return ids.map(id => ({ conversation_id: id, ok: true }));
+    });
   };
 
-  const generateEmailPreview = async (conversationId: string) => {
-    try {
-      setLoadingEmailPreview(true);
-      
-      // Check if we already have a Gemini summary for this conversation
-      let summary = geminiSummaries[conversationId];
-      
-      // If no summary exists, generate one first
-      if (!summary) {
-        // Fetch conversation details to get transcript
-        const response = await fetch(`/api/conversations/${conversationId}`);
-        if (!response.ok) {
-          throw new Error('Failed to fetch conversation details');
-        }
-        
-        const conversationDetails: ConversationDetails = await response.json();
-        
-        // Generate summary using Gemini
-        const summaryResponse = await fetch('/api/generate-summary', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({ transcript: conversationDetails.transcript }),
-        });
-        
-        if (!summaryResponse.ok) {
-          throw new Error('Failed to generate summary');
-        }
-        
-        const { summary: newSummary } = await summaryResponse.json();
-        summary = newSummary;
-        setGeminiSummaries(prev => ({ ...prev, [conversationId]: summary }));
+  const bulkEmailDigest = () => {
+    const ids = selectedIds();
+    const recipient = window.prompt(`Send a digest of ${ids.length} conversations to:`)?.trim();
+    if (!recipient) return;
+
+    return runBulkRequest('Email digest', ids, async () => {
+      const response = await fetch('/api/email-digest', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ conversationIds: ids, recipient }),
+      });
+      if (!response.ok) {
+        throw new Error('Failed to send digest email');
       }
-      
-      // Create email with actual summary content
-      const previewText = `Subject: Agenda for Our Upcoming Meeting
 
-Dear ${emailRecipient},
+      const { results }: { results: BulkItemResult[] } = await response.json();
+      return results;
+    });
+  };
 
-I hope this email finds you well! Here are some ideas that I wanted to share about talking to you in our meeting:
+  const fetchTrash = async () => {
+    try {
+      const response = await fetch('/api/trash');
+      if (!response.ok) {
+        throw new Error('Failed to fetch trash');
+      }
+      const { conversations }: { conversations: TrashedConversation[] } = await response.json();
+      setTrash(conversations);
+    } catch (error) {
+      console.error('Error fetching trash:', error);
+      showNotice('Could not load the trash.');
+    }
+  };
 
-${summary}
+  const showTrash = () => {
+    setViewMode('trash');
+    fetchTrash();
+  };
 
-Looking forward to our discussion!
 
-Best regards,
-Sasha
+  const generateGeminiSummary = async (conversationId: string) => {
+    const stored = conversations.find(conv => conv.conversation_id === conversationId)?.gemini_summary;
+    const job = summaryJobs[conversationId];
+    if (geminiSummaries[conversationId] || stored || job?.status === 'queued' || job?.status === 'running') {
+      return;
+    }
 
----
-Meeting prep from conversation on ${new Date().toLocaleDateString()}`;
-      
-      setEmailPreview(previewText);
+    try {
+      const { job, result } = await queueSummary(conversationId);
+      if (result) {
+        setGeminiSummaries(prev => ({ ...prev, [conversationId]: result }));
+      } else if (job) {
+        setSummaryJobs(prev => ({ ...prev, [conversationId]: job }));
+      }
     } catch (error) {
-      console.error('Error generating email preview:', error);
-      // Fallback to basic template if generation fails
-      const fallbackText = `Subject: Agenda for Our Upcoming Meeting
+      console.error('Error queueing summary:', error);
+    }
+  };
 
-Dear ${emailRecipient},
+  const activeJobIds = Object.values(summaryJobs)
+    .filter(job => job.status === 'queued' || job.status === 'running')
+    .map(job => job.id)
+    .join(',');
 
-I hope this email finds you well! Unfortunately, I encountered an issue preparing the meeting agenda ideas.
+  // Poll queued and running summary jobs until they finish
+  useEffect(() => {
+    if (!activeJobIds) return;
 
-Please try again or contact support if the issue persists.
+    const interval = setInterval(async () => {
+      try {
+        const jobs = await fetchSummaryJobs({ ids: activeJobIds });
+        const finished = jobs.filter(job => job.status === 'succeeded');
+        setGeminiSummaries(prev => ({
+          ...prev,
+          ...Object.fromEntries(finished.map(job => [job.payload.conversation_id, job.result as SummaryResult])),
+        }));
+        setSummaryJobs(prev => {
+          const next = { ...prev };
+          for (const job of jobs) {
+            if (job.status === 'succeeded') {
+              delete next[job.payload.conversation_id];
+            } else {
+              next[job.payload.conversation_id] = job;
+            }
+          }
+          return next;
+        });
+      } catch (error) {
+        console.error('Error polling summary jobs:', error);
+      }
+    }, JOB_POLL_INTERVAL_MS);
 
-Best regards,
-Sasha
+    return () => clearInterval(interval);
+  }, [activeJobIds]);
 
----
-Meeting prep from conversation on ${new Date().toLocaleDateString()}`;
-      
-      setEmailPreview(fallbackText);
+  // A single recipient from the contact book is greeted by name, otherwise the call's participant
+  const emailGreetingName = () => {
+    const contact = emailContacts.find(item => item.email === emailRecipients[0]);
+    const contactName = contact && contact.name !== contact.email ? contact.name : null;
+    return (emailRecipients.length === 1 && contactName) || conversationRecipients?.participant || emailRecipients[0];
+  };
+
+  // Rendered server-side by the same template code that sends the email
+  const generateEmailPreview = async (conversationId: string) => {
+    try {
+      setLoadingEmailPreview(true);
+      setEmailPreviewError(null);
+      const response = await fetch('/api/email-templates/preview', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ templateId: emailTemplateId || undefined, conversationId, recipient: emailGreetingName() }),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to generate email preview');
+      }
+
+      const draft: RenderedEmail = await response.json();
+      setEmailPreview(draft);
+      setEmailEdit({ cc: '', bcc: '', subject: draft.subject, text: draft.text });
+      setShowGeneratedDraft(false);
+    } catch (error) {
+      console.error('Error generating email preview:', error);
+      setEmailPreview(null);
+      setEmailEdit(null);
+      setEmailPreviewError('Unable to prepare the email. Please try again.');
     } finally {
       setLoadingEmailPreview(false);
     }
   };
 
+  const closeEmailModal = () => {
+    setEmailModal(null);
+    setEmailRecipients([]);
+    setEmailMeeting({ enabled: false, start: '', duration: '30' });
+    setEmailSendAt('');
+    setConversationRecipients(null);
+    setEmailPreview(null);
+    setEmailEdit(null);
+    setEmailPreviewError(null);
+  };
+
+  // Sends the edited email as shown; the server no longer rebuilds it
   const confirmSendEmail = async (conversationId: string) => {
+    if (!emailEdit) return;
+
     try {
       const response = await fetch('/api/space-fact-email', {
         method: 'POST',
@@ -413,29 +1105,94 @@ Meeting prep from conversation on ${new Date().toLocaleDateString()}`;
         },
         body: JSON.stringify({ 
           conversationId,
-          recipient: emailRecipient 
+          recipient: emailRecipients.join(', '),
+          cc: emailEdit.cc || undefined,
+          bcc: emailEdit.bcc || undefined,
+          subject: emailEdit.subject,
+          text: emailEdit.text,
+          // datetime-local is the browser's time zone; the server works in UTC
+          meeting: emailMeeting.enabled
+            ? { start: new Date(emailMeeting.start).toISOString(), duration_minutes: Number(emailMeeting.duration) }
+            : undefined,
+          sendAt: emailSendAt ? new Date(emailSendAt).toISOString() : undefined,
         }),
       });
       
       if (response.ok) {
-        // Close modal and reset state
-        setEmailModal(null);
-        setEmailRecipient('');
-        setEmailPreview('');
-        
-        // Show success feedback
-        setCopyStatus(conversationId);
-        setTimeout(() => setCopyStatus(null), 2000);
+        const { email }: { email: OutboxEmail } = await response.json();
+        closeEmailModal();
+        pendingEmailIds.current.add(email.id);
+        setConversationEmails(prev => prev[conversationId] ? { ...prev, [conversationId]: upsertEmail(prev[conversationId], email) } : prev);
+        showNotice(emailSendAt
+          ? `Email scheduled for ${new Date(email.send_at).toLocaleString()}.`
+          : 'Email queued for sending.');
       } else {
-        console.error('Failed to send email');
+        const { error } = await response.json();
+        setEmailPreviewError(error || 'Failed to send email');
       }
     } catch (error) {
       console.error('Error sending email:', error);
+      setEmailPreviewError('Failed to send email');
     }
   };
 
-  const openEmailModal = (conversationId: string) => {
+  // Starts with the contacts linked to the call's participant
+  const openEmailModal = async (conversationId: string) => {
     setEmailModal({ conversationId, isOpen: true });
+    try {
+      const [templateResponse, contactResponse, recipientResponse, emails] = await Promise.all([
+        fetch('/api/email-templates'),
+        fetch('/api/contacts'),
+        fetch(`/api/conversations/${conversationId}/recipients`),
+        fetchConversationEmails(conversationId),
+      ]);
+      setConversationEmails(prev => ({ ...prev, [conversationId]: emails }));
+      if (templateResponse.ok) {
+        setEmailTemplates((await templateResponse.json()).templates);
+      }
+      if (contactResponse.ok) {
+        setEmailContacts((await contactResponse.json()).contacts);
+      }
+      if (recipientResponse.ok) {
+        const recipients: ConversationRecipients = await recipientResponse.json();
+        setConversationRecipients(recipients);
+        setEmailRecipients(recipients.suggested.map(contact => contact.email));
+      }
+    } catch (error) {
+      console.error('Error preparing email:', error);
+    }
+  };
+
+  const toggleEmails = async (conversationId: string) => {
+    if (showingEmails[conversationId]) {
+      setShowingEmails(prev => ({ ...prev, [conversationId]: false }));
+      return;
+    }
+
+    setShowingEmails(prev => ({ ...prev, [conversationId]: true }));
+    try {
+      const emails = await fetchConversationEmails(conversationId);
+      setConversationEmails(prev => ({ ...prev, [conversationId]: emails }));
+    } catch (error) {
+      console.error('Error fetching emails:', error);
+      showNotice('Could not load the emails for this conversation.');
+    }
+  };
+
+  // Retry a failed email or cancel a queued one; the new status arrives over /api/events
+  const updateOutboxEmail = async (email: OutboxEmail, action: 'retry' | 'cancel') => {
+    try {
+      const response = await fetch(`/api/outbox/${email.id}/${action}`, { method: 'POST' });
+      if (!response.ok) {
+        throw new Error((await response.json()).error);
+      }
+      if (action === 'retry') {
+        pendingEmailIds.current.add(email.id);
+      }
+    } catch (error) {
+      console.error(`Error trying to ${action} email:`, error);
+      showNotice(action === 'retry' ? 'Could not retry the email.' : 'Could not cancel the email.');
+    }
   };
 
   const toggleTranscript = async (conversationId: string) => {
@@ -472,23 +1229,96 @@ Meeting prep from conversation on ${new Date().toLocaleDateString()}`;
     setShowingTranscript(prev => ({ ...prev, [conversationId]: true }));
   };
 
+  const renderSummaryNotes = ({ chunks, truncated }: SummaryResult) => (
+    (chunks || truncated) ? (
+      <div className="text-xs text-gray-500 mt-2">
+        {chunks ? `Long transcript, summarized in ${chunks} parts.` : ''}
+        {truncated ? ' Output hit the length limit and may be incomplete.' : ''}
+      </div>
+    ) : null
+  );
+
+  const renderSummary = (result: SummaryResult) => {
+    const { summary, raw } = result;
+
+    // Model output didn't match the schema, show it as-is
+    if (!summary) {
+      return (
+        <div className="text-gray-700 text-sm">
+          <div className="whitespace-pre-wrap">{raw}</div>
+          {renderSummaryNotes(result)}
+        </div>
+      );
+    }
+
+    return (
+      <div className="text-gray-700 text-sm">
+        <div className="space-y-3">
+          <div className="flex items-start space-x-2">
+            <span className="inline-flex items-center justify-center px-2 py-1 rounded-full text-xs font-medium bg-red-100 text-red-800 flex-shrink-0 w-20">
+              Issue
+            </span>
+            <p className="text-gray-700 text-sm">{summary.issue}</p>
+          </div>
+          <div className="flex items-start space-x-2">
+            <span className="inline-flex items-center justify-center px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800 flex-shrink-0 w-20">
+              Goal
+            </span>
+            <p className="text-gray-700 text-sm">{summary.goal}</p>
+          </div>
+          {summary.nextSteps.length > 0 && (
+            <div className="flex items-start space-x-2">
+              <span className="inline-flex items-center justify-center px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800 flex-shrink-0 w-20">
+                Next Steps
+              </span>
+              <ul className="text-gray-700 text-sm list-disc list-inside space-y-1">
+                {summary.nextSteps.map((step, index) => (
+                  <li key={index}>{step}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+        {renderSummaryNotes(result)}
+      </div>
+    );
+  };
+
   const renderConversationItem = (conversation: Conversation) => (
     <div key={conversation.conversation_id} className="flex items-center space-x-4">
-      {/* Left Arrow - Delete */}
-      <button
-        onClick={() => deleteConversation(conversation.conversation_id)}
-        className="flex items-center justify-center w-10 h-10 text-red-600 bg-red-50 hover:bg-red-100 rounded-full transition-colors flex-shrink-0"
-        title="Delete conversation"
-      >
-        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1-1H9a1 1 0 00-1 1v3M4 7h16" />
-        </svg>
-      </button>
+      {/* Left Arrow - Delete (admins only) */}
+      {hasRole(session, 'admin') ? (
+        <button
+          onClick={() => deleteConversation(conversation)}
+          className="flex items-center justify-center w-10 h-10 text-red-600 bg-red-50 hover:bg-red-100 rounded-full transition-colors flex-shrink-0"
+          title="Delete conversation"
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1-1H9a1 1 0 00-1 1v3M4 7h16" />
+          </svg>
+        </button>
+      ) : (
+        <div className="w-10 flex-shrink-0" />
+      )}
 
       {/* Main Card */}
-      <div className="flex-1 bg-white rounded-lg border border-gray-200 hover:border-gray-300 transition-all duration-200 overflow-hidden">
+      <div
+        onMouseEnter={() => clearNewIndicator(conversation.conversation_id)}
+        className={`flex-1 bg-white rounded-lg border hover:border-gray-300 transition-all duration-200 overflow-hidden ${
+          newConversationIds.has(conversation.conversation_id) ? 'border-blue-300' : 'border-gray-200'
+        }`}
+      >
         <div className="p-4">
           <div className="flex items-start space-x-4">
+            {viewMode === 'all' && (
+              <input
+                type="checkbox"
+                checked={selected.has(conversation.conversation_id)}
+                onChange={() => toggleSelected(conversation.conversation_id)}
+                className="mt-1 h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                aria-label="Select conversation"
+              />
+            )}
             
             {/* Main Content */}
             <div className="flex-1 min-w-0">
@@ -496,6 +1326,11 @@ Meeting prep from conversation on ${new Date().toLocaleDateString()}`;
                 <div className="flex items-center justify-between mb-1">
                   <span className="text-sm font-medium text-gray-900">
                     {conversation.call_summary_title || 'Untitled Conversation'}
+                    {newConversationIds.has(conversation.conversation_id) && (
+                      <span className="ml-2 px-2 py-0.5 text-xs font-medium bg-blue-50 text-blue-700 rounded-full">
+                        New
+                      </span>
+                    )}
                   </span>
                   <span className="text-sm text-gray-500">
                     {getFormattedDate(conversation.start_time_unix_secs)}
@@ -504,77 +1339,81 @@ Meeting prep from conversation on ${new Date().toLocaleDateString()}`;
                 
                 {/* Meeting metadata */}
                 <div className="flex items-center space-x-4 text-xs text-gray-600">
-                  {participantNames[conversation.conversation_id] && (
+                  {(participantNames[conversation.conversation_id] || conversation.participant_name) && (
                     <div className="flex items-center space-x-1">
                       <span>👤</span>
-                      <span>Meeting with: {participantNames[conversation.conversation_id]}</span>
+                      <span>Meeting with: {participantNames[conversation.conversation_id] || conversation.participant_name}</span>
                     </div>
                   )}
                   <div className="flex items-center space-x-1">
                     <span>Agent: {conversation.agent_name}</span>
                   </div>
+                  {conversation.tags?.map(tag => (
+                    <span key={tag} className="px-2 py-0.5 bg-gray-100 text-gray-700 rounded-full">
+                      {tag}
+                    </span>
+                  ))}
                 </div>
               </div>
               
               {/* Conversation Preview */}
               <div className="mb-3">
-                {loadingSummary[conversation.conversation_id] ? (
+                {['queued', 'running'].includes(summaryJobs[conversation.conversation_id]?.status) ? (
                   <div className="flex items-center space-x-2">
                     <div className="animate-spin h-4 w-4 border-2 border-blue-500 border-t-transparent rounded-full"></div>
-                    <span className="text-gray-700 text-sm">Generating takeaways...</span>
-                  </div>
-                ) : geminiSummaries[conversation.conversation_id] ? (
-                  <div className="text-gray-700 text-sm">
-                    <div className="space-y-3">
-                      {/* Parse and format the structured summary */}
-                      {geminiSummaries[conversation.conversation_id].split('\n\n').map((section, index) => {
-                        const trimmedSection = section.trim();
-                        if (trimmedSection.startsWith('**Issue:**')) {
-                          return (
-                            <div key={index} className="flex items-start space-x-2">
-                              <span className="inline-flex items-center justify-center px-2 py-1 rounded-full text-xs font-medium bg-red-100 text-red-800 flex-shrink-0 w-20">
-                                Issue
-                              </span>
-                              <p className="text-gray-700 text-sm">{trimmedSection.replace('**Issue:**', '').trim()}</p>
-                            </div>
-                          );
-                        } else if (trimmedSection.startsWith('**Goal:**')) {
-                          return (
-                            <div key={index} className="flex items-start space-x-2">
-                              <span className="inline-flex items-center justify-center px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800 flex-shrink-0 w-20">
-                                Goal
-                              </span>
-                              <p className="text-gray-700 text-sm">{trimmedSection.replace('**Goal:**', '').trim()}</p>
-                            </div>
-                          );
-                        } else if (trimmedSection.startsWith('**Next Steps:**')) {
-                          return (
-                            <div key={index} className="flex items-start space-x-2">
-                              <span className="inline-flex items-center justify-center px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800 flex-shrink-0 w-20">
-                                Next Steps
-                              </span>
-                              <p className="text-gray-700 text-sm">{trimmedSection.replace('**Next Steps:**', '').trim()}</p>
-                            </div>
-                          );
-                        }
-                        return null;
-                      }).filter(Boolean)}
-                    </div>
+                    <span className="text-gray-700 text-sm">
+                      {summaryJobs[conversation.conversation_id].status === 'running'
+                        ? 'Generating takeaways...'
+                        : summaryJobs[conversation.conversation_id].attempts > 0
+                          ? `Waiting to retry (attempt ${summaryJobs[conversation.conversation_id].attempts} of ${summaryJobs[conversation.conversation_id].max_attempts})...`
+                          : 'Queued for takeaways...'}
+                    </span>
                   </div>
+                ) : (geminiSummaries[conversation.conversation_id] || conversation.gemini_summary) ? (
+                  renderSummary(geminiSummaries[conversation.conversation_id] || conversation.gemini_summary!)
                 ) : (
                   <div className="space-y-2">
                     <div className="text-gray-700 text-sm italic">
                       &ldquo;{conversation.transcript_summary || 'No preview available'}&rdquo;
                     </div>
-                    <button
-                      onClick={() => generateGeminiSummary(conversation.conversation_id)}
-                      className="text-blue-600 hover:text-blue-800 text-xs underline"
-                    >
-                      Generate takeaways
-                    </button>
+                    {summaryJobs[conversation.conversation_id]?.status === 'failed' && (
+                      <div className="text-red-600 text-xs">
+                        Takeaways failed: {summaryJobs[conversation.conversation_id].last_error}
+                      </div>
+                    )}
+                    {hasRole(session, 'analyst') && (
+                      <button
+                        onClick={() => generateGeminiSummary(conversation.conversation_id)}
+                        className="text-blue-600 hover:text-blue-800 text-xs underline"
+                      >
+                        {summaryJobs[conversation.conversation_id]?.status === 'failed' ? 'Retry takeaways' : 'Generate takeaways'}
+                      </button>
+                    )}
                   </div>
                 )}
               </div>
+
+              {/* Search Matches */}
+              {searchTerm && searchResults?.results.find(result => result.conversation_id === conversation.conversation_id) && (
+                <div className="mb-3 space-y-1">
+                  {searchResults.results.find(result => result.conversation_id === conversation.conversation_id)!.matches.map((match, index) => (
+                    <button
+                      key={index}
+                      onClick={() => match.turn_index !== null && showTranscriptTurns(conversation.conversation_id, [match.turn_index], match.turn_index)}
+                      disabled={match.turn_index === null}
+                      className="block w-full text-left px-3 py-2 text-xs text-gray-700 bg-yellow-50 hover:bg-yellow-100 disabled:hover:bg-yellow-50 border border-yellow-100 rounded-md transition-colors"
+                      title={match.turn_index !== null ? 'Show in transcript' : undefined}
+                    >
+                      <span className="font-medium text-yellow-800 mr-2">
+                        {match.source === 'summary'
+                          ? 'Summary'
+                          : `${match.role === 'agent' ? 'Agent' : 'User'} · ${formatCallTime(match.time_in_call_secs ?? 0)}`}
+                      </span>
+                      {match.snippet}
+                    </button>
+                  ))}
+                </div>
+              )}
               
               {/* Status and Actions */}
               <div className="flex items-center justify-between">
@@ -595,11 +1434,20 @@ Meeting prep from conversation on ${new Date().toLocaleDateString()}`;
                     {loadingTranscript[conversation.conversation_id] ? 'Loading...' : showingTranscript[conversation.conversation_id] ? 'Hide Transcript' : 'Show Transcript'}
                   </button>
                   <button
-                    onClick={() => toggleQA(conversation.conversation_id)}
-                    className="px-3 py-1 text-xs font-medium text-blue-800 bg-blue-100 hover:bg-blue-200 rounded-md transition-colors"
+                    onClick={() => toggleEmails(conversation.conversation_id)}
+                    className="px-3 py-1 text-xs font-medium text-purple-700 bg-purple-100 hover:bg-purple-200 rounded-md transition-colors"
+                    title={showingEmails[conversation.conversation_id] ? 'Hide emails sent' : 'Show emails sent'}
                   >
-                    chat with transcript
+                    {showingEmails[conversation.conversation_id] ? 'Hide Emails' : 'Emails Sent'}
                   </button>
+                  {hasRole(session, 'analyst') && (
+                    <button
+                      onClick={() => toggleQA(conversation.conversation_id)}
+                      className="px-3 py-1 text-xs font-medium text-blue-800 bg-blue-100 hover:bg-blue-200 rounded-md transition-colors"
+                    >
+                      chat with transcript
+                    </button>
+                  )}
                 </div>
               </div>
             </div>
@@ -612,10 +1460,12 @@ Meeting prep from conversation on ${new Date().toLocaleDateString()}`;
                 <h4 className="text-sm font-medium text-gray-700 mb-3">Conversation Transcript</h4>
                 <div className="space-y-3">
                   {transcripts[conversation.conversation_id].map((turn, index) => (
-                    <div key={index} className={`p-3 rounded-md ${
+                    <div key={index} id={`turn-${conversation.conversation_id}-${index}`} className={`p-3 rounded-md ${
                       turn.role === 'agent' 
                         ? 'bg-blue-50 border-l-4 border-blue-400' 
                         : 'bg-green-50 border-l-4 border-green-400'
+                    } ${
+                      highlightedTurns[conversation.conversation_id]?.includes(index) ? 'ring-2 ring-yellow-400' : ''
                     }`}>
                       <div className="flex items-center space-x-2 mb-1">
                         <span className={`text-xs font-medium ${
@@ -635,6 +1485,60 @@ Meeting prep from conversation on ${new Date().toLocaleDateString()}`;
             </div>
           )}
           
+          {/* Emails sent about this conversation */}
+          {showingEmails[conversation.conversation_id] && conversationEmails[conversation.conversation_id] && (
+            <div className="mt-4 pt-4 border-t border-gray-100">
+              <h4 className="text-sm font-medium text-gray-700 mb-3">Emails Sent</h4>
+              {conversationEmails[conversation.conversation_id].length === 0 ? (
+                <p className="text-sm text-gray-500">No emails about this conversation yet.</p>
+              ) : (
+                <ul className="space-y-2">
+                  {conversationEmails[conversation.conversation_id].map(email => (
+                    <li key={email.id} className="bg-gray-50 rounded-md p-3 text-sm">
+                      <div className="flex items-center justify-between space-x-2">
+                        <span className="font-medium text-gray-900 truncate">{email.message.subject}</span>
+                        <div className="flex items-center space-x-2 flex-shrink-0">
+                          <span className={`px-2 py-0.5 rounded-full text-xs ${OUTBOX_STATUS_STYLES[email.status]}`}>
+                            {email.status === 'queued' && email.send_at > Date.now() ? 'scheduled' : email.status}
+                          </span>
+                          {email.delivery && (
+                            <span
+                              title={email.delivery_detail ?? undefined}
+                              className={`px-2 py-0.5 rounded-full text-xs ${
+                                email.delivery === 'delivered' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                              }`}
+                            >
+                              {email.delivery}
+                            </span>
+                          )}
+                        </div>
+                      </div>
+                      <p className="text-xs text-gray-600 mt-1">
+                        To {[email.message.to, email.message.cc].filter(Boolean).join(', ')}
+                        {' · '}
+                        {email.sent_at
+                          ? `Sent ${new Date(email.sent_at).toLocaleString()}`
+                          : `${email.send_at > Date.now() ? 'Scheduled for' : 'Queued'} ${new Date(email.send_at).toLocaleString()}`}
+                        {' · '}by {email.created_by}
+                      </p>
+                      {email.last_error && email.status !== 'sent' && (
+                        <p className="text-xs text-red-600 mt-1">{email.last_error}</p>
+                      )}
+                      {hasRole(session, 'admin') && (email.status === 'failed' || email.status === 'queued') && (
+                        <button
+                          onClick={() => updateOutboxEmail(email, email.status === 'failed' ? 'retry' : 'cancel')}
+                          className="mt-1 text-xs text-blue-600 hover:text-blue-800 underline"
+                        >
+                          {email.status === 'failed' ? 'Retry' : 'Cancel'}
+                        </button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
           {/* Expanded Q&A Interface */}
           {expandedQA === conversation.conversation_id && (
             <div className="mt-4 pt-4 border-t border-gray-100">
@@ -642,7 +1546,7 @@ Meeting prep from conversation on ${new Date().toLocaleDateString()}`;
                 <div className="flex space-x-3">
                   <input
                     type="text"
-                    placeholder="Ask a question about this conversation..."
+                    placeholder={(chats[conversation.conversation_id] || []).length > 0 ? 'Ask a follow-up question...' : 'Ask a question about this conversation...'}
                     value={questions[conversation.conversation_id] || ''}
                     onChange={(e) => setQuestions(prev => ({ 
                       ...prev, 
@@ -656,20 +1560,72 @@ Meeting prep from conversation on ${new Date().toLocaleDateString()}`;
                     className="flex-1 px-3 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
                     disabled={loadingAnalysis[conversation.conversation_id]}
                   />
-                  <button
-                    onClick={() => askQuestion(conversation.conversation_id)}
-                    disabled={loadingAnalysis[conversation.conversation_id] || !questions[conversation.conversation_id]?.trim()}
-                    className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg disabled:opacity-50 transition-colors"
-                  >
-                    {loadingAnalysis[conversation.conversation_id] ? 'Analyzing...' : 'Send'}
-                  </button>
+                  {loadingAnalysis[conversation.conversation_id] ? (
+                    <button
+                      onClick={() => cancelQuestion(conversation.conversation_id)}
+                      className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+                    >
+                      Cancel
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => askQuestion(conversation.conversation_id)}
+                      disabled={!questions[conversation.conversation_id]?.trim()}
+                      className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg disabled:opacity-50 transition-colors"
+                    >
+                      Send
+                    </button>
+                  )}
                 </div>
                 
-                {/* Answer Display */}
-                {answers[conversation.conversation_id] && (
-                  <div className="bg-blue-50 rounded-lg p-4 border border-blue-100">
-                    <div className="text-sm text-blue-900">
-                      <strong>AI Response:</strong> {answers[conversation.conversation_id]}
+                {/* Chat Thread */}
+                {(chats[conversation.conversation_id] || []).length > 0 && (
+                  <div className="space-y-2">
+                    <div ref={chatThreadRef} className="space-y-3 max-h-80 overflow-y-auto">
+                      {chats[conversation.conversation_id].map((message, index) => (
+                        message.role === 'user' ? (
+                          <div key={index} className="flex justify-end">
+                            <div className="max-w-[80%] bg-gray-100 rounded-lg px-3 py-2 text-sm text-gray-900 whitespace-pre-wrap">
+                              {message.content}
+                            </div>
+                          </div>
+                        ) : (
+                          <div key={index} className="bg-blue-50 rounded-lg p-4 border border-blue-100">
+                            <div className="text-sm text-blue-900 whitespace-pre-wrap">
+                              <strong>AI Response:</strong> {message.content || 'Analyzing...'}
+                            </div>
+                            {message.chunking?.applied && (
+                              <div className="text-xs text-blue-700 mt-2">
+                                Long transcript: answered from the {message.chunking.chunks_used} most relevant of {message.chunking.chunks_total} sections.
+                              </div>
+                            )}
+                            {message.citations && message.citations.length > 0 && (
+                              <div className="flex flex-wrap items-center gap-2 mt-3">
+                                <span className="text-xs text-blue-700">Sources:</span>
+                                {message.citations.map(citation => (
+                                  <button
+                                    key={citation.turn_index}
+                                    onClick={() => showCitation(conversation.conversation_id, message.citations!, citation)}
+                                    className="px-2 py-0.5 text-xs font-medium text-blue-800 bg-white border border-blue-200 hover:bg-blue-100 rounded-full transition-colors"
+                                    title="Show in transcript"
+                                  >
+                                    [{citation.turn_index + 1}] {citation.role === 'agent' ? 'Agent' : 'User'} · {formatCallTime(citation.time_in_call_secs)}
+                                  </button>
+                                ))}
+                              </div>
+                            )}
+                          </div>
+                        )
+                      ))}
+                    </div>
+                    <div className="flex justify-end">
+                      <button
+                        onClick={() => clearChat(conversation.conversation_id)}
+                        disabled={loadingAnalysis[conversation.conversation_id]}
+                        className="text-gray-500 hover:text-gray-700 text-xs underline disabled:opacity-50"
+                      >
+                        Clear chat
+                      </button>
                     </div>
                   </div>
                 )}
@@ -679,19 +1635,25 @@ Meeting prep from conversation on ${new Date().toLocaleDateString()}`;
         </div>
       </div>
 
-      {/* Right Arrow - Send Email */}
-      <button
-        onClick={() => openEmailModal(conversation.conversation_id)}
-        className="flex items-center justify-center w-10 h-10 text-blue-600 bg-blue-50 hover:bg-blue-100 rounded-full transition-colors flex-shrink-0"
-        title="Send space fact email"
-      >
-        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 8l7.89 3.26a2 2 0 001.22 0L21 8M5 19h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
-        </svg>
-      </button>
+      {/* Right Arrow - Send Email (admins only) */}
+      {hasRole(session, 'admin') ? (
+        <button
+          onClick={() => openEmailModal(conversation.conversation_id)}
+          className="flex items-center justify-center w-10 h-10 text-blue-600 bg-blue-50 hover:bg-blue-100 rounded-full transition-colors flex-shrink-0"
+          title="Send space fact email"
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 8l7.89 3.26a2 2 0 001.22 0L21 8M5 19h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
+          </svg>
+        </button>
+      ) : (
+        <div className="w-10 flex-shrink-0" />
+      )}
     </div>
   );
 
+  const invalidRecipients = emailRecipients.filter(email => !EMAIL_ADDRESS.test(email));
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -746,26 +1708,56 @@ Meeting prep from conversation on ${new Date().toLocaleDateString()}`;
                 >
                   All
                 </button>
+                {hasRole(session, 'admin') && (
+                  <button
+                    onClick={showTrash}
+                    className={`px-4 py-2 rounded-lg text-sm font-medium transition-all duration-200 ${
+                      viewMode === 'trash'
+                        ? 'bg-white text-gray-900 shadow-sm'
+                        : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'
+                    }`}
+                  >
+                    Trash
+                  </button>
+                )}
               </div>
+
+              {session && (
+                <div className="flex items-center space-x-2 text-sm text-gray-500">
+                  <span title={`Role: ${session.role}`}>{session.email}</span>
+                  {hasRole(session, 'analyst') && (
+                    <Link href="/settings" className="text-gray-600 hover:text-gray-900 underline">
+                      Settings
+                    </Link>
+                  )}
+                  <button onClick={signOut} className="text-gray-600 hover:text-gray-900 underline">
+                    Sign out
+                  </button>
+                </div>
+              )}
             </div>
           </div>
           
           <div className="text-sm text-gray-500">
-            {viewMode === 'last' ? 'Showing latest conversation' : `${filteredConversations.length} of ${conversations.length} conversations`}
+            {viewMode === 'last'
+              ? 'Showing latest conversation'
+              : viewMode === 'trash'
+                ? `${trash.length} conversations in trash`
+                : `${filteredConversations.length} of ${conversations.length}${nextCursor ? '+' : ''} conversations`}
           </div>
         </div>
 
         {/* Filters Section - Only show in 'all' mode */}
         {viewMode === 'all' && (
           <div className="bg-white shadow-sm rounded-xl mb-8 p-8 border border-gray-100">
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-6 gap-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-7 gap-4">
               <div className="col-span-2">
                 <label className="block text-sm font-medium text-gray-700 mb-1">
                   Search
                 </label>
                 <input
                   type="text"
-                  placeholder="Search conversations..."
+                  placeholder="Search titles, transcripts and summaries..."
                   value={searchTerm}
                   onChange={(e) => setSearchTerm(e.target.value)}
                   className="w-full px-4 py-3 border border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-gray-50 text-gray-900 placeholder-gray-500 transition-all duration-200"
@@ -834,6 +1826,22 @@ Meeting prep from conversation on ${new Date().toLocaleDateString()}`;
                   <option value="month">Last Month</option>
                 </select>
               </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Tag
+                </label>
+                <select
+                  value={tagFilter}
+                  onChange={(e) => setTagFilter(e.target.value)}
+                  className="w-full px-4 py-3 border border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 bg-gray-50 text-gray-900 transition-all duration-200"
+                >
+                  <option value="all">All Tags</option>
+                  {getUniqueTags().map(tag => (
+                    <option key={tag} value={tag}>{tag}</option>
+                  ))}
+                </select>
+              </div>
             </div>
             
             <div className="mt-6 flex justify-end">
@@ -844,78 +1852,407 @@ Meeting prep from conversation on ${new Date().toLocaleDateString()}`;
                 Clear Filters
               </button>
             </div>
+
+            {/* Ask across conversations - uses the filters above, not the search box */}
+            {hasRole(session, 'analyst') && <div className="mt-6 pt-6 border-t border-gray-100">
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Ask across matching conversations
+              </label>
+              <div className="flex space-x-2">
+                <input
+                  type="text"
+                  placeholder="e.g. What objections did people raise?"
+                  value={crossQuestion}
+                  onChange={(e) => setCrossQuestion(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && !loadingCrossAnalysis && askAcrossConversations()}
+                  className="flex-1 px-4 py-3 border border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-gray-50 text-gray-900 placeholder-gray-500 transition-all duration-200"
+                />
+                <button
+                  onClick={askAcrossConversations}
+                  disabled={loadingCrossAnalysis || !crossQuestion.trim()}
+                  className="px-6 py-3 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-xl transition-all duration-200 shadow-sm disabled:opacity-50"
+                >
+                  {loadingCrossAnalysis ? 'Analyzing...' : 'Ask'}
+                </button>
+              </div>
+
+              {crossAnalysis && (
+                <div className="mt-4 p-4 bg-blue-50 border border-blue-100 rounded-xl">
+                  <p className="text-sm text-gray-800 whitespace-pre-wrap">{crossAnalysis.answer}</p>
+                  {crossAnalysis.conversations.length > 0 && (
+                    <div className="mt-3 space-y-2">
+                      <p className="text-xs text-gray-500">
+                        Based on {crossAnalysis.conversations.length} of {crossAnalysis.matching_total} matching conversations
+                      </p>
+                      {crossAnalysis.conversations
+                        .filter(conv => crossAnalysis.citations.some(c => c.conversation_id === conv.conversation_id))
+                        .map(conv => (
+                          <div key={conv.conversation_id} className="flex flex-wrap items-center gap-1 text-xs">
+                            <span className="font-medium text-gray-700 mr-1">
+                              {conv.label} · {conv.call_summary_title || 'Untitled call'} · {getFormattedDate(conv.start_time_unix_secs)}
+                            </span>
+                            {crossAnalysis.citations.filter(c => c.conversation_id === conv.conversation_id).map(citation => (
+                              <button
+                                key={citation.turn_index}
+                                onClick={() => showConversationCitation(crossAnalysis.citations, citation)}
+                                className="px-2 py-0.5 bg-white text-blue-700 border border-blue-200 hover:bg-blue-100 rounded-md transition-colors"
+                                title="Show in transcript"
+                              >
+                                [{conv.label}:{citation.turn_index + 1}] {citation.role === 'agent' ? 'Agent' : 'User'} {formatCallTime(citation.time_in_call_secs)}
+                              </button>
+                            ))}
+                          </div>
+                        ))}
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>}
           </div>
         )}
 
-        {/* Conversations List */}
-        <div className="space-y-3">
-          {filteredConversations.length === 0 ? (
-            <div className="bg-white rounded-lg border border-gray-200 p-6 text-center">
-              <p className="text-gray-500">No conversations found.</p>
-            </div>
-          ) : (
-            filteredConversations.map(renderConversationItem)
+        {/* Trash - deleted conversations until they are purged upstream */}
+        {viewMode === 'trash' ? (
+          <div className="space-y-3">
+            {trash.length === 0 ? (
+              <div className="bg-white rounded-lg border border-gray-200 p-6 text-center">
+                <p className="text-gray-500">Trash is empty.</p>
+              </div>
+            ) : (
+              trash.map(conversation => (
+                <div key={conversation.conversation_id} className="bg-white rounded-lg border border-gray-200 p-4 flex items-center justify-between">
+                  <div className="min-w-0">
+                    <div className="text-sm font-medium text-gray-900">
+                      {conversation.call_summary_title || 'Untitled Conversation'}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      Deleted by {conversation.deleted_by} on {getFormattedDate(conversation.deleted_at)} · permanently deleted after {getFormattedDate(conversation.purge_after)}
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => restoreConversations([conversation])}
+                    className="px-3 py-1 text-xs font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md transition-colors flex-shrink-0"
+                  >
+                    Restore
+                  </button>
+                </div>
+              ))
+            )}
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {/* Bulk actions on the selected conversations */}
+            {viewMode === 'all' && filteredConversations.length > 0 && (
+              <div className="bg-white rounded-lg border border-gray-200 p-4 space-y-3">
+                <div className="flex flex-wrap items-center gap-2">
+                  <label className="flex items-center space-x-2 text-sm text-gray-700 mr-2">
+                    <input
+                      type="checkbox"
+                      checked={filteredConversations.every(conv => selected.has(conv.conversation_id))}
+                      onChange={(e) => selectAllMatching(e.target.checked)}
+                      disabled={loadingMore}
+                      className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    <span>Select all {filteredConversations.length}{nextCursor ? '+' : ''} matching</span>
+                  </label>
+                  <span className="text-sm text-gray-500 mr-auto">{selectedIds().length} selected</span>
+                  {hasRole(session, 'analyst') && (
+                    <>
+                      <button
+                        onClick={bulkGenerateSummaries}
+                        disabled={!!bulkProgress || selectedIds().length === 0}
+                        className="px-3 py-1 text-xs font-medium text-blue-800 bg-blue-100 hover:bg-blue-200 rounded-md transition-colors disabled:opacity-50"
+                      >
+                        Generate summaries
+                      </button>
+                      <button
+                        onClick={bulkTag}
+                        disabled={!!bulkProgress || selectedIds().length === 0}
+                        className="px-3 py-1 text-xs font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md transition-colors disabled:opacity-50"
+                      >
+                        Tag
+                      </button>
+                      <button
+                        onClick={() => bulkExport('csv')}
+                        disabled={!!bulkProgress || selectedIds().length === 0}
+                        className="px-3 py-1 text-xs font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md transition-colors disabled:opacity-50"
+                      >
+                        Export CSV
+                      </button>
+                      <button
+                        onClick={() => bulkExport('json')}
+                        disabled={!!bulkProgress || selectedIds().length === 0}
+                        className="px-3 py-1 text-xs font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md transition-colors disabled:opacity-50"
+                      >
+                        Export JSON
+                      </button>
+                    </>
+                  )}
+                  {hasRole(session, 'admin') && (
+                    <>
+                      <button
+                        onClick={bulkEmailDigest}
+                        disabled={!!bulkProgress || selectedIds().length === 0}
+                        className="px-3 py-1 text-xs font-medium text-blue-800 bg-blue-100 hover:bg-blue-200 rounded-md transition-colors disabled:opacity-50"
+                      >
+                        Email digest
+                      </button>
+                      <button
+                        onClick={bulkDelete}
+                        disabled={!!bulkProgress || selectedIds().length === 0}
+                        className="px-3 py-1 text-xs font-medium text-red-700 bg-red-50 hover:bg-red-100 rounded-md transition-colors disabled:opacity-50"
+                      >
+                        Delete
+                      </button>
+                    </>
+                  )}
+                </div>
+
+                {bulkProgress && (
+                  <div>
+                    <div className="flex justify-between text-xs text-gray-600 mb-1">
+                      <span>{bulkProgress.label}...</span>
+                      <span>{bulkProgress.done} / {bulkProgress.total}</span>
+                    </div>
+                    <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                      <div
+                        className="h-full bg-blue-500 transition-all duration-300"
+                        style={{ width: `${(bulkProgress.done / bulkProgress.total) * 100}%` }}
+                      />
+                    </div>
+                  </div>
+                )}
+
+                {bulkReport && (
+                  <div className="text-xs">
+                    <div className="flex justify-between">
+                      <span className="font-medium text-gray-700">
+                        {bulkReport.label}: {bulkReport.results.filter(result => result.ok).length} succeeded, {bulkReport.results.filter(result => !result.ok).length} failed
+                      </span>
+                      <button onClick={() => setBulkReport(null)} className="text-gray-500 hover:text-gray-700 underline">
+                        Dismiss
+                      </button>
+                    </div>
+                    {bulkReport.results.some(result => !result.ok) && (
+                      <ul className="mt-2 space-y-1 text-red-700">
+                        {bulkReport.results.filter(result => !result.ok).map(result => (
+                          <li key={result.conversation_id}>
+                            {conversations.find(conv => conv.conversation_id === result.conversation_id)?.call_summary_title || result.conversation_id}: {result.error}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {filteredConversations.length === 0 ? (
+              <div className="bg-white rounded-lg border border-gray-200 p-6 text-center">
+                <p className="text-gray-500">No conversations found.</p>
+              </div>
+            ) : (
+              filteredConversations.map(renderConversationItem)
+            )}
+          </div>
+        )}
+
+        {viewMode === 'all' && (nextCursor || loadingMore) && (
+          <div className="mt-6 flex justify-center">
+            <button
+              onClick={() => loadMoreConversations(false)}
+              disabled={loadingMore}
+              className="px-6 py-3 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-xl transition-all duration-200 shadow-sm disabled:opacity-50"
+            >
+              {loadingMore ? 'Loading...' : 'Load more'}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Delete / restore notice with undo */}
+      {notice && (
+        <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 flex items-center space-x-4 px-4 py-3 bg-gray-900 text-white text-sm rounded-lg shadow-lg">
+          <span>{notice.message}</span>
+          {notice.undo && (
+            <button
+              onClick={() => restoreConversations(notice.undo!)}
+              className="font-medium text-blue-300 hover:text-blue-200 underline"
+            >
+              Undo
+            </button>
           )}
         </div>
-      </div>
+      )}
 
       {/* Email Confirmation Modal */}
       {emailModal?.isOpen && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-          <div className="bg-white rounded-lg p-6 max-w-md w-full mx-4">
+          <div className="bg-white rounded-lg p-6 max-w-lg w-full mx-4 max-h-[90vh] overflow-y-auto">
             <h3 className="text-lg font-medium mb-4">Send Space Fact Email</h3>
             
             <div className="space-y-4">
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Recipient Email
+                  Recipients
                 </label>
-                <input
-                  type="email"
-                  value={emailRecipient}
-                  onChange={(e) => setEmailRecipient(e.target.value)}
-                  placeholder="Enter recipient email address"
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-900 placeholder-gray-600"
-                />
+                <RecipientInput recipients={emailRecipients} contacts={emailContacts} onChange={setEmailRecipients} />
+                {invalidRecipients.length > 0 && (
+                  <p className="mt-1 text-xs text-red-600">Not email addresses: {invalidRecipients.join(', ')}</p>
+                )}
+                {conversationEmails[emailModal.conversationId]?.filter(email => email.status === 'sent').map(email => (
+                  <p key={email.id} className="mt-1 text-xs text-gray-500">
+                    Emailed {new Date(email.sent_at!).toLocaleString()} to {email.message.to}
+                    {' '}
+                    <button
+                      onClick={() => setEmailRecipients([...new Set([...emailRecipients, ...email.message.to.split(',').map(address => address.trim())])])}
+                      className="text-blue-600 hover:text-blue-800 underline"
+                    >
+                      Add again
+                    </button>
+                  </p>
+                ))}
               </div>
 
-              {emailRecipient && (
+              {emailTemplates.length > 1 && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Template
+                  </label>
+                  <select
+                    value={emailTemplateId}
+                    onChange={(e) => {
+                      setEmailTemplateId(e.target.value);
+                      setEmailPreview(null);
+                      setEmailEdit(null);
+                    }}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-900"
+                  >
+                    {emailTemplates.map(template => (
+                      <option key={template.id} value={template.id}>{template.name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              {emailRecipients.length > 0 && (
                 <div>
                   <button
                     onClick={() => generateEmailPreview(emailModal.conversationId)}
                     disabled={loadingEmailPreview}
                     className="text-blue-600 hover:text-blue-800 text-sm underline disabled:opacity-50"
                   >
-                    {loadingEmailPreview ? 'Generating preview...' : 'Preview email content'}
+                    {loadingEmailPreview ? 'Generating preview...' : emailEdit ? 'Regenerate draft' : 'Preview email content'}
                   </button>
                 </div>
               )}
 
-              {emailPreview && (
-                <div className="bg-gray-50 rounded-md p-3 max-h-40 overflow-y-auto">
-                  <h4 className="text-sm font-medium text-gray-700 mb-2">Email Preview:</h4>
-                  <div className="text-sm text-gray-900 whitespace-pre-wrap">{emailPreview}</div>
+              <div>
+                <label className="flex items-center space-x-2 text-sm font-medium text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={emailMeeting.enabled}
+                    onChange={(e) => setEmailMeeting({
+                      ...emailMeeting,
+                      enabled: e.target.checked,
+                      start: emailMeeting.start || defaultMeetingStart(),
+                    })}
+                    className="rounded border-gray-300"
+                  />
+                  <span>Attach calendar invite</span>
+                </label>
+                {emailMeeting.enabled && (
+                  <div className="mt-2 flex items-center space-x-2">
+                    <input
+                      type="datetime-local"
+                      value={emailMeeting.start}
+                      onChange={(e) => setEmailMeeting({ ...emailMeeting, start: e.target.value })}
+                      className="flex-1 px-2 py-1 border border-gray-300 rounded text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    <select
+                      value={emailMeeting.duration}
+                      onChange={(e) => setEmailMeeting({ ...emailMeeting, duration: e.target.value })}
+                      className="px-2 py-1 border border-gray-300 rounded text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      {MEETING_DURATIONS.map(minutes => (
+                        <option key={minutes} value={minutes}>{minutes < 60 ? `${minutes} min` : `${minutes / 60} h`}</option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Send at
+                </label>
+                <input
+                  type="datetime-local"
+                  value={emailSendAt}
+                  onChange={(e) => setEmailSendAt(e.target.value)}
+                  className="w-full px-2 py-1 border border-gray-300 rounded text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <p className="mt-1 text-xs text-gray-500">Leave empty to send straight away.</p>
+              </div>
+
+              {emailPreviewError && <p className="text-sm text-red-600">{emailPreviewError}</p>}
+
+              {emailPreview && emailEdit && (
+                <div className="bg-gray-50 rounded-md p-3 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <h4 className="text-sm font-medium text-gray-700">
+                      Email Preview{(emailEdit.subject !== emailPreview.subject || emailEdit.text !== emailPreview.text) && ' (edited)'}
+                    </h4>
+                    <button
+                      onClick={() => setShowGeneratedDraft(!showGeneratedDraft)}
+                      className="text-blue-600 hover:text-blue-800 text-xs underline"
+                    >
+                      {showGeneratedDraft ? 'Hide generated draft' : 'Compare with generated draft'}
+                    </button>
+                  </div>
+                  {([['cc', 'CC'], ['bcc', 'BCC'], ['subject', 'Subject']] as const).map(([field, label]) => (
+                    <div key={field} className="flex items-center space-x-2">
+                      <label className="w-16 text-xs font-medium text-gray-600">{label}</label>
+                      <input
+                        value={emailEdit[field]}
+                        onChange={(e) => setEmailEdit({ ...emailEdit, [field]: e.target.value })}
+                        placeholder={field === 'cc' || field === 'bcc' ? 'Comma-separated, optional' : undefined}
+                        className="flex-1 px-2 py-1 border border-gray-300 rounded text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </div>
+                  ))}
+                  <textarea
+                    value={emailEdit.text}
+                    onChange={(e) => setEmailEdit({ ...emailEdit, text: e.target.value })}
+                    rows={10}
+                    className="w-full px-2 py-1 border border-gray-300 rounded text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  {showGeneratedDraft && (
+                    <div className="border-t border-gray-200 pt-2">
+                      <p className="text-xs font-medium text-gray-600 mb-1">Generated draft: {emailPreview.subject}</p>
+                      <div className="text-xs text-gray-600 whitespace-pre-wrap max-h-40 overflow-y-auto">{emailPreview.text}</div>
+                    </div>
+                  )}
                 </div>
               )}
             </div>
 
             <div className="flex justify-end space-x-3 mt-6">
               <button
-                onClick={() => {
-                  setEmailModal(null);
-                  setEmailRecipient('');
-                  setEmailPreview('');
-                }}
+                onClick={closeEmailModal}
                 className="px-4 py-2 text-gray-600 border border-gray-300 rounded-md hover:bg-gray-50"
               >
                 Cancel
               </button>
               <button
                 onClick={() => confirmSendEmail(emailModal.conversationId)}
-                disabled={!emailRecipient || !emailPreview}
+                disabled={
+                  emailRecipients.length === 0 || invalidRecipients.length > 0 || (emailMeeting.enabled && !emailMeeting.start) ||
+                  !emailEdit?.subject.trim() || !emailEdit.text.trim()
+                }
                 className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
               >
-                Send Email
+                {emailSendAt ? 'Schedule Email' : 'Send Email'}
               </button>
             </div>
           </div>
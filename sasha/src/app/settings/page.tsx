@@ -0,0 +1,667 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import type { AuditEntry } from '@/lib/audit-log';
+import type { Contact } from '@/lib/contacts';
+import type { EmailTemplate, RenderedEmail } from '@/lib/email-templates';
+import type { FollowUpRule } from '@/lib/follow-up-rules';
+import type { Job } from '@/lib/jobs';
+import { hasRole, Session } from '@/lib/session';
+
+interface Agent {
+  agent_id: string;
+  agent_name: string;
+}
+
+const OUTCOMES: {[key: string]: string} = {
+  success: 'Successful',
+  failure: 'Unsuccessful',
+  unknown: 'Unknown outcome',
+};
+
+const EMPTY_FORM = {
+  name: '',
+  agent_id: '',
+  call_successful: 'success',
+  recipient: 'participant' as FollowUpRule['recipient'],
+  emails: '',
+  delay_minutes: '0',
+  template_id: '',
+};
+
+const EMPTY_TEMPLATE = { id: null as string | null, name: '', subject: '', body: '' };
+
+const EMPTY_CONTACT = { name: '', email: '', participant_names: '' };
+
+function splitNames(names: string) {
+  return names.split(',').map(name => name.trim()).filter(Boolean);
+}
+
+async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, init);
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || `Request failed: ${response.status}`);
+  }
+  return data;
+}
+
+function formatTime(unixSecs: number) {
+  return new Date(unixSecs * 1000).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+export default function SettingsPage() {
+  const [session, setSession] = useState<Session | null>(null);
+  const [rules, setRules] = useState<FollowUpRule[]>([]);
+  const [agents, setAgents] = useState<Agent[]>([]);
+  const [sendLog, setSendLog] = useState<AuditEntry[]>([]);
+  const [pending, setPending] = useState<Job[]>([]);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [templates, setTemplates] = useState<EmailTemplate[]>([]);
+  const [variables, setVariables] = useState<{[key: string]: string}>({});
+  const [draft, setDraft] = useState(EMPTY_TEMPLATE);
+  const [templatePreview, setTemplatePreview] = useState<RenderedEmail | null>(null);
+  const [savingTemplate, setSavingTemplate] = useState(false);
+  const [contacts, setContacts] = useState<Contact[]>([]);
+  const [contactForm, setContactForm] = useState(EMPTY_CONTACT);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSettings = async () => {
+    try {
+      const currentSession = await fetchJson<Session>('/api/auth/me');
+      setSession(currentSession);
+      if (!hasRole(currentSession, 'analyst')) return;
+
+      const [templateData, contactData] = await Promise.all([
+        fetchJson<{ templates: EmailTemplate[]; variables: {[key: string]: string} }>('/api/email-templates'),
+        fetchJson<{ contacts: Contact[] }>('/api/contacts'),
+      ]);
+      setContacts(contactData.contacts);
+      setTemplates(templateData.templates);
+      setVariables(templateData.variables);
+      const [first] = templateData.templates;
+      if (first) {
+        setDraft({ id: first.id, name: first.name, subject: first.subject, body: first.body });
+      }
+      if (!hasRole(currentSession, 'admin')) return;
+
+      const [ruleData, logData, jobData] = await Promise.all([
+        fetchJson<{ rules: FollowUpRule[]; agents: Agent[] }>('/api/follow-up-rules'),
+        fetchJson<{ entries: AuditEntry[] }>('/api/audit-log?action=follow_up_email.queued,follow_up_email.sent,follow_up_email.skipped&limit=50'),
+        fetchJson<{ jobs: Job[] }>('/api/jobs?type=follow_up_email&status=queued,running,failed'),
+      ]);
+      setRules(ruleData.rules);
+      setAgents(ruleData.agents);
+      setSendLog(logData.entries);
+      setPending(jobData.jobs);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchSettings();
+  }, []);
+
+  const createRule = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    try {
+      const rule = await fetchJson<FollowUpRule>('/api/follow-up-rules', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          name: form.name.trim(),
+          agent_id: form.agent_id,
+          call_successful: form.call_successful,
+          recipient: form.recipient,
+          emails: form.emails.split(',').map(email => email.trim()).filter(Boolean),
+          delay_minutes: Number(form.delay_minutes),
+          template_id: form.template_id,
+        }),
+      });
+      setRules(prev => [...prev, rule]);
+      setForm(EMPTY_FORM);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create rule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleRule = async (rule: FollowUpRule) => {
+    try {
+      const updated = await fetchJson<FollowUpRule>(`/api/follow-up-rules/${rule.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ enabled: !rule.enabled }),
+      });
+      setRules(prev => prev.map(item => item.id === rule.id ? updated : item));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update rule');
+    }
+  };
+
+  const deleteRule = async (rule: FollowUpRule) => {
+    if (!window.confirm(`Delete the rule "${rule.name}"? Emails it already queued will still be sent.`)) return;
+
+    try {
+      await fetchJson(`/api/follow-up-rules/${rule.id}`, { method: 'DELETE' });
+      setRules(prev => prev.filter(item => item.id !== rule.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete rule');
+    }
+  };
+
+  const editTemplate = (template: EmailTemplate | null) => {
+    setDraft(template ? { id: template.id, name: template.name, subject: template.subject, body: template.body } : EMPTY_TEMPLATE);
+    setTemplatePreview(null);
+  };
+
+  const saveTemplate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSavingTemplate(true);
+    setError(null);
+    try {
+      const { id, ...input } = draft;
+      const saved = await fetchJson<EmailTemplate>(id ? `/api/email-templates/${id}` : '/api/email-templates', {
+        method: id ? 'PATCH' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(input),
+      });
+      setTemplates(prev => id ? prev.map(item => item.id === id ? saved : item) : [...prev, saved]);
+      editTemplate(saved);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save template');
+    } finally {
+      setSavingTemplate(false);
+    }
+  };
+
+  // The default template can't be removed, only reset to the built-in text
+  const deleteTemplate = async () => {
+    const { id, name } = draft;
+    const isDefault = id === templates[0]?.id;
+    if (!id || !window.confirm(isDefault ? `Reset "${name}" to the built-in text?` : `Delete the template "${name}"?`)) return;
+
+    try {
+      const { template } = await fetchJson<{ template?: EmailTemplate }>(`/api/email-templates/${id}`, { method: 'DELETE' });
+      if (template) {
+        setTemplates(prev => prev.map(item => item.id === id ? template : item));
+        editTemplate(template);
+      } else {
+        setTemplates(prev => prev.filter(item => item.id !== id));
+        editTemplate(templates[0]);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete template');
+    }
+  };
+
+  const previewTemplate = async () => {
+    setError(null);
+    try {
+      setTemplatePreview(await fetchJson<RenderedEmail>('/api/email-templates/preview', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ template: { subject: draft.subject, body: draft.body } }),
+      }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to preview template');
+    }
+  };
+
+  // Saving an existing address merges the names into that contact
+  const saveContact = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    try {
+      const contact = await fetchJson<Contact>('/api/contacts', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          name: contactForm.name.trim(),
+          email: contactForm.email.trim(),
+          participant_names: splitNames(contactForm.participant_names),
+        }),
+      });
+      setContacts(prev => [...prev.filter(item => item.email !== contact.email), contact].sort((a, b) => a.name.localeCompare(b.name)));
+      setContactForm(EMPTY_CONTACT);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save contact');
+    }
+  };
+
+  const editParticipantNames = async (contact: Contact) => {
+    const names = window.prompt(`Participant names linked to ${contact.email}, comma-separated:`, contact.participant_names.join(', '));
+    if (names === null) return;
+
+    try {
+      const updated = await fetchJson<Contact>(`/api/contacts/${encodeURIComponent(contact.email)}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ participant_names: splitNames(names) }),
+      });
+      setContacts(prev => prev.map(item => item.email === contact.email ? updated : item));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update contact');
+    }
+  };
+
+  const deleteContact = async (contact: Contact) => {
+    if (!window.confirm(`Remove ${contact.email} from the contact book?`)) return;
+
+    try {
+      await fetchJson(`/api/contacts/${encodeURIComponent(contact.email)}`, { method: 'DELETE' });
+      setContacts(prev => prev.filter(item => item.email !== contact.email));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete contact');
+    }
+  };
+
+  const describeRule = (rule: FollowUpRule) => {
+    const agent = rule.agent_id
+      ? agents.find(item => item.agent_id === rule.agent_id)?.agent_name ?? rule.agent_id
+      : 'any agent';
+    const outcome = rule.call_successful ? OUTCOMES[rule.call_successful]?.toLowerCase() ?? rule.call_successful : 'any';
+    const recipient = rule.recipient === 'participant' ? 'the participant' : rule.emails.join(', ');
+    const delay = rule.delay_minutes > 0 ? `${rule.delay_minutes} min after the call` : 'right after the call';
+    const template = templates.find(item => item.id === rule.template_id)?.name ?? templates[0]?.name ?? 'agenda';
+    return `Calls for ${agent} with ${outcome} outcome: email "${template}" to ${recipient}, ${delay}.`;
+  };
+
+  const ruleName = (ruleId: unknown) => rules.find(rule => rule.id === ruleId)?.name ?? 'Deleted rule';
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin h-8 w-8 border-2 border-blue-500 border-t-transparent rounded-full"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-4xl mx-auto px-4 py-8 space-y-8">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">Settings</h1>
+            <p className="text-gray-500 text-lg">Email templates, contacts and automatic follow-ups after calls</p>
+          </div>
+          <Link href="/" className="text-sm text-gray-600 hover:text-gray-900 underline">
+            Back to conversations
+          </Link>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-xl p-4 text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        {hasRole(session, 'analyst') ? (
+          <section className="bg-white shadow-sm rounded-xl p-6 border border-gray-100 space-y-4">
+            <div className="flex items-center justify-between">
+              <h2 className="text-lg font-semibold text-gray-900">Email templates</h2>
+              <button onClick={() => editTemplate(null)} className="text-sm text-blue-600 hover:text-blue-800">
+                New template
+              </button>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {templates.map(template => (
+                <button
+                  key={template.id}
+                  onClick={() => editTemplate(template)}
+                  className={`px-3 py-1 rounded-full text-sm ${
+                    draft.id === template.id ? 'bg-blue-100 text-blue-800' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
+                >
+                  {template.name}
+                </button>
+              ))}
+            </div>
+
+            <form onSubmit={saveTemplate} className="space-y-3">
+              <input
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                required
+                placeholder="Template name"
+                className="w-full px-4 py-2 border border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 bg-gray-50 text-gray-900"
+              />
+              <input
+                value={draft.subject}
+                onChange={(e) => setDraft({ ...draft, subject: e.target.value })}
+                required
+                placeholder="Subject"
+                className="w-full px-4 py-2 border border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 bg-gray-50 text-gray-900"
+              />
+              <textarea
+                value={draft.body}
+                onChange={(e) => setDraft({ ...draft, body: e.target.value })}
+                required
+                rows={14}
+                className="w-full px-4 py-2 border border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 bg-gray-50 text-gray-900 font-mono text-sm"
+              />
+              <div className="text-xs text-gray-500 space-y-1">
+                <p>Blank lines start a new paragraph and lines starting with &quot;- &quot; become bullet points in the HTML email.</p>
+                <p>
+                  {Object.entries(variables).map(([name, description]) => (
+                    <span key={name} className="mr-3" title={description}>
+                      <code className="text-gray-700">{`{{${name}}}`}</code>
+                    </span>
+                  ))}
+                </p>
+              </div>
+              <div className="flex items-center space-x-3">
+                <button
+                  type="submit"
+                  disabled={savingTemplate}
+                  className="px-6 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-xl transition-all duration-200 shadow-sm disabled:opacity-50"
+                >
+                  {savingTemplate ? 'Saving...' : draft.id ? 'Save template' : 'Create template'}
+                </button>
+                <button type="button" onClick={previewTemplate} className="text-sm text-blue-600 hover:text-blue-800">
+                  Preview
+                </button>
+                {draft.id && (
+                  <button type="button" onClick={deleteTemplate} className="text-sm text-red-600 hover:text-red-800">
+                    {draft.id === templates[0]?.id ? 'Reset to built-in' : 'Delete'}
+                  </button>
+                )}
+              </div>
+            </form>
+
+            {templatePreview && (
+              <div className="bg-gray-50 rounded-xl p-4 space-y-2">
+                <p className="text-sm text-gray-900">
+                  <span className="font-medium">Subject:</span> {templatePreview.subject}
+                </p>
+                <iframe
+                  srcDoc={templatePreview.html}
+                  sandbox=""
+                  title="Template preview"
+                  className="w-full h-80 bg-white border border-gray-200 rounded"
+                />
+                <p className="text-xs text-gray-500">Shown with a sample summary and recipient.</p>
+              </div>
+            )}
+          </section>
+        ) : (
+          <p className="text-gray-600">Viewers can&apos;t change settings.</p>
+        )}
+
+        {hasRole(session, 'analyst') && (
+          <section className="bg-white shadow-sm rounded-xl p-6 border border-gray-100 space-y-4">
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900">Contacts</h2>
+              <p className="text-sm text-gray-500">
+                Participants linked to a contact are suggested as recipients for their calls. Automatic follow-ups only use an address given on the call.
+              </p>
+            </div>
+            {contacts.length === 0 ? (
+              <p className="text-sm text-gray-500">No contacts yet.</p>
+            ) : (
+              <ul className="divide-y divide-gray-100">
+                {contacts.map(contact => (
+                  <li key={contact.email} className="py-3 flex items-start justify-between space-x-4">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900">
+                        {contact.name} <span className="font-normal text-gray-500">&lt;{contact.email}&gt;</span>
+                      </p>
+                      <p className="text-sm text-gray-600">
+                        {contact.participant_names.length > 0
+                          ? `Participant: ${contact.participant_names.join(', ')}`
+                          : 'Not linked to a participant'}
+                      </p>
+                    </div>
+                    <div className="flex items-center space-x-3 flex-shrink-0">
+                      <button onClick={() => editParticipantNames(contact)} className="text-sm text-blue-600 hover:text-blue-800">
+                        Link participants
+                      </button>
+                      <button onClick={() => deleteContact(contact)} className="text-sm text-red-600 hover:text-red-800">
+                        Delete
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <form onSubmit={saveContact} className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <input
+                value={contactForm.name}
+                onChange={(e) => setContactForm({ ...contactForm, name: e.target.value })}
+                placeholder="Name"
+                className="w-full px-4 py-2 border border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 bg-gray-50 text-gray-900"
+              />
+              <input
+                type="email"
+                value={contactForm.email}
+                onChange={(e) => setContactForm({ ...contactForm, email: e.target.value })}
+                required
+                placeholder="Email address"
+                className="w-full px-4 py-2 border border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 bg-gray-50 text-gray-900"
+              />
+              <input
+                value={contactForm.participant_names}
+                onChange={(e) => setContactForm({ ...contactForm, participant_names: e.target.value })}
+                placeholder="Participant names, comma-separated"
+                className="w-full px-4 py-2 border border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 bg-gray-50 text-gray-900"
+              />
+              <div className="md:col-span-3">
+                <button
+                  type="submit"
+                  className="px-6 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-xl transition-all duration-200 shadow-sm"
+                >
+                  Add contact
+                </button>
+              </div>
+            </form>
+          </section>
+        )}
+
+        {hasRole(session, 'admin') && (
+          <>
+            <section className="bg-white shadow-sm rounded-xl p-6 border border-gray-100 space-y-4">
+              <h2 className="text-lg font-semibold text-gray-900">Rules</h2>
+              {rules.length === 0 ? (
+                <p className="text-sm text-gray-500">No rules yet. Calls are only followed up by hand.</p>
+              ) : (
+                <ul className="divide-y divide-gray-100">
+                  {rules.map(rule => (
+                    <li key={rule.id} className="py-3 flex items-start justify-between space-x-4">
+                      <div className="min-w-0">
+                        <p className={`text-sm font-medium ${rule.enabled ? 'text-gray-900' : 'text-gray-400'}`}>
+                          {rule.name}{!rule.enabled && ' (paused)'}
+                        </p>
+                        <p className="text-sm text-gray-600">{describeRule(rule)}</p>
+                      </div>
+                      <div className="flex items-center space-x-3 flex-shrink-0">
+                        <button
+                          onClick={() => toggleRule(rule)}
+                          className="text-sm text-blue-600 hover:text-blue-800"
+                        >
+                          {rule.enabled ? 'Pause' : 'Resume'}
+                        </button>
+                        <button
+                          onClick={() => deleteRule(rule)}
+                          className="text-sm text-red-600 hover:text-red-800"
+                        >
+                          Delete
+                        </button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+
+            <section className="bg-white shadow-sm rounded-xl p-6 border border-gray-100">
+              <h2 className="text-lg font-semibold text-gray-900 mb-4">New rule</h2>
+              <form onSubmit={createRule} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                  <input
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                    required
+                    placeholder="Agenda after successful sales calls"
+                    className="w-full px-4 py-2 border border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 bg-gray-50 text-gray-900"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Agent</label>
+                  <select
+                    value={form.agent_id}
+                    onChange={(e) => setForm({ ...form, agent_id: e.target.value })}
+                    className="w-full px-4 py-2 border border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 bg-gray-50 text-gray-900"
+                  >
+                    <option value="">Any agent</option>
+                    {agents.map(agent => (
+                      <option key={agent.agent_id} value={agent.agent_id}>{agent.agent_name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Call outcome</label>
+                  <select
+                    value={form.call_successful}
+                    onChange={(e) => setForm({ ...form, call_successful: e.target.value })}
+                    className="w-full px-4 py-2 border border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 bg-gray-50 text-gray-900"
+                  >
+                    {Object.entries(OUTCOMES).map(([value, label]) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                    <option value="">Any outcome</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Send to</label>
+                  <select
+                    value={form.recipient}
+                    onChange={(e) => setForm({ ...form, recipient: e.target.value as FollowUpRule['recipient'] })}
+                    className="w-full px-4 py-2 border border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 bg-gray-50 text-gray-900"
+                  >
+                    <option value="participant">The participant</option>
+                    <option value="fixed">A fixed list</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Template</label>
+                  <select
+                    value={form.template_id}
+                    onChange={(e) => setForm({ ...form, template_id: e.target.value })}
+                    className="w-full px-4 py-2 border border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 bg-gray-50 text-gray-900"
+                  >
+                    {templates.map((template, index) => (
+                      <option key={template.id} value={index === 0 ? '' : template.id}>{template.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Delay (minutes)</label>
+                  <input
+                    type="number"
+                    min={0}
+                    value={form.delay_minutes}
+                    onChange={(e) => setForm({ ...form, delay_minutes: e.target.value })}
+                    className="w-full px-4 py-2 border border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 bg-gray-50 text-gray-900"
+                  />
+                </div>
+                {form.recipient === 'fixed' ? (
+                  <div className="md:col-span-2">
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Email addresses</label>
+                    <input
+                      value={form.emails}
+                      onChange={(e) => setForm({ ...form, emails: e.target.value })}
+                      required
+                      placeholder="team@example.com, lead@example.com"
+                      className="w-full px-4 py-2 border border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 bg-gray-50 text-gray-900"
+                    />
+                  </div>
+                ) : (
+                  <p className="md:col-span-2 text-xs text-gray-500">
+                    The participant&apos;s email comes from the call&apos;s participant_email variable or an address they gave during the call.
+                    Calls without one are skipped and logged below.
+                  </p>
+                )}
+                <div className="md:col-span-2">
+                  <button
+                    type="submit"
+                    disabled={saving}
+                    className="px-6 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-xl transition-all duration-200 shadow-sm disabled:opacity-50"
+                  >
+                    {saving ? 'Saving...' : 'Add rule'}
+                  </button>
+                </div>
+              </form>
+            </section>
+
+            <section className="bg-white shadow-sm rounded-xl p-6 border border-gray-100 space-y-4">
+              <h2 className="text-lg font-semibold text-gray-900">Automatic sends</h2>
+              {pending.length > 0 && (
+                <ul className="space-y-1 text-sm">
+                  {pending.map(job => (
+                    <li key={job.id} className={job.status === 'failed' ? 'text-red-600' : 'text-gray-600'}>
+                      {job.status === 'failed'
+                        ? `Failed: ${ruleName(job.payload.rule_id)} to ${job.payload.recipient} (${job.last_error})`
+                        : `Scheduled: ${ruleName(job.payload.rule_id)} to ${job.payload.recipient} at ${formatTime(job.run_after / 1000)}`}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {sendLog.length === 0 ? (
+                <p className="text-sm text-gray-500">Nothing sent automatically yet.</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500">
+                      <th className="py-2 font-medium">When</th>
+                      <th className="py-2 font-medium">Rule</th>
+                      <th className="py-2 font-medium">Conversation</th>
+                      <th className="py-2 font-medium">Result</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100 text-gray-700">
+                    {sendLog.map(entry => (
+                      <tr key={entry.id}>
+                        <td className="py-2 whitespace-nowrap">{formatTime(entry.created_at)}</td>
+                        <td className="py-2">{ruleName(entry.details?.rule_id)}</td>
+                        <td className="py-2 font-mono text-xs">{entry.target_id}</td>
+                        <td className="py-2">
+                          {entry.action === 'follow_up_email.queued'
+                            ? `Queued for ${entry.details?.recipient}`
+                            : entry.action === 'follow_up_email.sent'
+                              ? `Sent to ${entry.details?.recipient}`
+                              : `Skipped: ${entry.details?.reason}`}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </section>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+import { randomUUID } from 'crypto';
+import { JsonCollection } from './db';
+
+export type AuditAction =
+  | 'conversation.delete'
+  | 'conversation.restore'
+  | 'conversation.purge'
+  // Recorded by follow-up jobs before emails went through the outbox
+  | 'follow_up_email.sent'
+  // Handed to the outbox; details.email_id is the outbox entry that tracks delivery
+  | 'follow_up_email.queued'
+  | 'follow_up_email.skipped';
+
+export interface AuditEntry {
+  id: string;
+  action: AuditAction;
+  // Email of the signed-in user, or 'system' for background jobs
+  actor: string;
+  target_id: string;
+  created_at: number;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Append-only record of destructive and security-relevant actions, and of emails sent automatically.
+ */
+export interface AuditLog {
+  record(entry: Omit<AuditEntry, 'id' | 'created_at'>): Promise<AuditEntry>;
+  // Newest first
+  list(query?: { targetId?: string; actions?: AuditAction[]; limit?: number }): Promise<AuditEntry[]>;
+}
+
+class JsonAuditLog implements AuditLog {
+  private entries = new JsonCollection<AuditEntry>('audit-log');
+
+  record(entry: Omit<AuditEntry, 'id' | 'created_at'>): Promise<AuditEntry> {
+    const id = randomUUID();
+    return this.entries.put(id, { id, ...entry, created_at: Math.floor(Date.now() / 1000) });
+  }
+
+  async list({ targetId, actions, limit = 100 }: { targetId?: string; actions?: AuditAction[]; limit?: number } = {}): Promise<AuditEntry[]> {
+    return (await this.entries.values())
+      .filter(entry => (!targetId || entry.target_id === targetId) && (!actions || actions.includes(entry.action)))
+      .sort((a, b) => b.created_at - a.created_at)
+      .slice(0, limit);
+  }
+}
+
+export const auditLog: AuditLog = new JsonAuditLog();
@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server';
+import { hasRole, Role, Session, SESSION_COOKIE, verifySessionToken } from './session';
+import { userStore } from './users';
+
+function sessionCookie(request: Request): string | undefined {
+  const cookies = request.headers.get('cookie') ?? '';
+  for (const part of cookies.split(';')) {
+    const [name, ...value] = part.trim().split('=');
+    if (name === SESSION_COOKIE) return decodeURIComponent(value.join('='));
+  }
+  return undefined;
+}
+
+// The signed-in user, with the role currently in the user table rather than the one in the token
+export async function getSession(request: Request): Promise<Session | null> {
+  const session = await verifySessionToken(sessionCookie(request));
+  if (!session) return null;
+
+  const user = await userStore.get(session.email);
+  return user && { ...session, role: user.role };
+}
+
+/**
+ * Route handler guard. Returns the session, or the 401/403 response to send back.
+ *
+ *   const auth = await authorize(request, 'admin');
+ *   if (auth instanceof NextResponse) return auth;
+ */
+export async function authorize(request: Request, role: Role): Promise<Session | NextResponse> {
+  const session = await getSession(request);
+  if (!session) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+  if (!hasRole(session, role)) {
+    return NextResponse.json(
+      { error: `Requires ${role} role` },
+      { status: 403 }
+    );
+  }
+  return session;
+}
@@ -0,0 +1,100 @@
+import { randomUUID } from 'crypto';
+import { EmailAttachment } from './mail';
+
+export interface MeetingInvite {
+  title: string;
+  description: string;
+  start: Date;
+  duration_minutes: number;
+  organizer: { name: string; email: string };
+  // Invited addresses; BCC recipients are left out so the invite doesn't reveal them
+  attendees: string[];
+  uid?: string;
+}
+
+// Longest meeting an invite can be for
+export const MAX_MEETING_MINUTES = 8 * 60;
+
+// UTC date-time in the basic format RFC 5545 uses, e.g. 20260301T150000Z
+function formatDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+// TEXT values escape backslashes, semicolons, commas and newlines (RFC 5545 3.3.11)
+function escapeText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+// Quoted parameter values can't contain quotes, and a name must not break the line
+function quoteParam(value: string): string {
+  return `"${value.replace(/["\r\n]/g, '')}"`;
+}
+
+// Lines longer than 75 octets are folded onto continuation lines starting with a space (RFC 5545 3.1)
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (Buffer.byteLength(current + char) > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+// What's wrong with a requested meeting time, or null if it is usable
+export function meetingInputError(start: unknown, durationMinutes: unknown): string | null {
+  if (typeof start !== 'string' || Number.isNaN(Date.parse(start))) {
+    return 'Meeting start must be a date and time';
+  }
+  const duration = Number(durationMinutes);
+  if (!Number.isInteger(duration) || duration <= 0 || duration > MAX_MEETING_MINUTES) {
+    return `Meeting duration must be between 1 and ${MAX_MEETING_MINUTES} minutes`;
+  }
+  return null;
+}
+
+/**
+ * A single-event iCalendar REQUEST, the form calendar clients offer to accept. Times are in UTC,
+ * so the invite needs no time zone definitions.
+ */
+export function buildCalendarInvite(invite: MeetingInvite): string {
+  const end = new Date(invite.start.getTime() + invite.duration_minutes * 60 * 1000);
+  const domain = invite.organizer.email.split('@')[1] ?? 'localhost';
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Sasha//Meeting Agenda//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:REQUEST',
+    'BEGIN:VEVENT',
+    `UID:${invite.uid ?? `${randomUUID()}@${domain}`}`,
+    `DTSTAMP:${formatDateTime(new Date())}`,
+    `DTSTART:${formatDateTime(invite.start)}`,
+    `DTEND:${formatDateTime(end)}`,
+    `SUMMARY:${escapeText(invite.title)}`,
+    `DESCRIPTION:${escapeText(invite.description)}`,
+    `ORGANIZER;CN=${quoteParam(invite.organizer.name)}:mailto:${invite.organizer.email}`,
+    ...invite.attendees.map(email =>
+      `ATTENDEE;CUTYPE=INDIVIDUAL;ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION;RSVP=TRUE:mailto:${email}`
+    ),
+    'SEQUENCE:0',
+    'STATUS:CONFIRMED',
+    'TRANSP:OPAQUE',
+    'END:VEVENT',
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+export function calendarInviteAttachment(invite: MeetingInvite): EmailAttachment {
+  return {
+    filename: 'invite.ics',
+    contentType: 'text/calendar; method=REQUEST',
+    content: buildCalendarInvite(invite),
+  };
+}
@@ -0,0 +1,44 @@
+import { Citation } from './citations';
+import { JsonCollection } from './db';
+
+export interface StoredChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  citations?: Citation[];
+  created_at: number;
+}
+
+/**
+ * Transcript Q&A threads, one per conversation.
+ */
+export interface ChatStore {
+  get(conversationId: string): Promise<StoredChatMessage[]>;
+  append(conversationId: string, messages: Omit<StoredChatMessage, 'created_at'>[]): Promise<StoredChatMessage[]>;
+  clear(conversationId: string): Promise<void>;
+}
+
+class JsonChatStore implements ChatStore {
+  private threads = new JsonCollection<StoredChatMessage[]>('chats');
+
+  async get(conversationId: string): Promise<StoredChatMessage[]> {
+    return (await this.threads.get(conversationId)) ?? [];
+  }
+
+  append(conversationId: string, messages: Omit<StoredChatMessage, 'created_at'>[]): Promise<StoredChatMessage[]> {
+    const createdAt = Math.floor(Date.now() / 1000);
+    return this.threads.mutate(records => {
+      const thread = [
+        ...(records[conversationId] ?? []),
+        ...messages.map(message => ({ ...message, created_at: createdAt })),
+      ];
+      records[conversationId] = thread;
+      return thread;
+    });
+  }
+
+  async clear(conversationId: string): Promise<void> {
+    await this.threads.delete(conversationId);
+  }
+}
+
+export const chatStore: ChatStore = new JsonChatStore();
@@ -0,0 +1,78 @@
+import { TranscriptTurn } from './types';
+
+// Rough English average; close enough to budget prompts without a tokenizer
+const CHARS_PER_TOKEN = 4;
+
+export const TRANSCRIPT_TOKEN_BUDGET = Number(process.env.TRANSCRIPT_TOKEN_BUDGET) || 8000;
+export const TRANSCRIPT_CHUNK_TOKENS = Number(process.env.TRANSCRIPT_CHUNK_TOKENS) || 3000;
+
+export interface TranscriptChunk {
+  // Index of the chunk's first turn in the full transcript
+  start_index: number;
+  turns: TranscriptTurn[];
+  tokens: number;
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+function estimateTurnTokens(turn: TranscriptTurn): number {
+  // Role label, timestamp and numbering add a few tokens per turn
+  return estimateTokens(turn.message) + 8;
+}
+
+export function estimateTranscriptTokens(transcript: TranscriptTurn[]): number {
+  return transcript.reduce((total, turn) => total + estimateTurnTokens(turn), 0);
+}
+
+/**
+ * Split a transcript into consecutive chunks of at most maxTokens, never inside a turn.
+ * A single turn larger than maxTokens becomes a chunk of its own.
+ */
+export function chunkTranscript(transcript: TranscriptTurn[], maxTokens = TRANSCRIPT_CHUNK_TOKENS): TranscriptChunk[] {
+  const chunks: TranscriptChunk[] = [];
+  let current: TranscriptChunk | null = null;
+
+  transcript.forEach((turn, index) => {
+    const tokens = estimateTurnTokens(turn);
+    if (!current || current.tokens + tokens > maxTokens) {
+      current = { start_index: index, turns: [], tokens: 0 };
+      chunks.push(current);
+    }
+    current.turns.push(turn);
+    current.tokens += tokens;
+  });
+
+  return chunks;
+}
+
+function terms(text: string): string[] {
+  return text.toLowerCase().match(/[a-z0-9']{3,}/g) ?? [];
+}
+
+/**
+ * Pick the chunks most relevant to a query, by term overlap, until the token budget is spent.
+ * Returned in transcript order.
+ */
+export function selectRelevantChunks(chunks: TranscriptChunk[], query: string, budget = TRANSCRIPT_TOKEN_BUDGET): TranscriptChunk[] {
+  const queryTerms = new Set(terms(query));
+
+  const scored = chunks.map(chunk => {
+    const chunkTerms = terms(chunk.turns.map(turn => turn.message).join(' '));
+    const hits = chunkTerms.filter(term => queryTerms.has(term)).length;
+    // Normalise by length so long chunks don't win on volume alone
+    return { chunk, score: hits / Math.sqrt(chunkTerms.length || 1) };
+  });
+  scored.sort((a, b) => b.score - a.score || a.chunk.start_index - b.chunk.start_index);
+
+  const selected: TranscriptChunk[] = [];
+  let used = 0;
+  for (const { chunk } of scored) {
+    if (selected.length > 0 && used + chunk.tokens > budget) continue;
+    selected.push(chunk);
+    used += chunk.tokens;
+  }
+
+  return selected.sort((a, b) => a.start_index - b.start_index);
+}
@@ -0,0 +1,36 @@
+import { TranscriptTurn } from './types';
+
+export interface Citation {
+  // Position in the transcript array (the prompt numbers turns from 1)
+  turn_index: number;
+  role: TranscriptTurn['role'];
+  time_in_call_secs: number;
+}
+
+export function formatCallTime(secs: number): string {
+  return `${Math.floor(secs / 60)}:${String(Math.floor(secs % 60)).padStart(2, '0')}`;
+}
+
+// Transcript lines prefixed with [n] so answers can cite turns by number
+export function numberTranscript(transcript: TranscriptTurn[], startIndex = 0): string {
+  return transcript.map((turn, index) =>
+    `[${startIndex + index + 1}] ${turn.role.toUpperCase()} (${formatCallTime(turn.time_in_call_secs)}): ${turn.message}`
+  ).join('\n\n');
+}
+
+// Every valid [n] marker in the answer, once each, in transcript order
+export function extractCitations(answer: string, transcript: TranscriptTurn[]): Citation[] {
+  const indices = new Set<number>();
+  for (const match of answer.matchAll(/\[(\d+)\]/g)) {
+    const index = Number(match[1]) - 1;
+    if (index >= 0 && index < transcript.length) {
+      indices.add(index);
+    }
+  }
+
+  return [...indices].sort((a, b) => a - b).map(index => ({
+    turn_index: index,
+    role: transcript[index].role,
+    time_in_call_secs: transcript[index].time_in_call_secs,
+  }));
+}
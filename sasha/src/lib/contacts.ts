@@ -0,0 +1,109 @@
+import { JsonCollection } from './db';
+import { invalidAddresses } from './mail';
+import { normalizeEmail } from './users';
+
+/**
+ * Someone we email, linked to the participant names extractParticipantName finds for them
+ * in call transcripts.
+ */
+export interface Contact {
+  email: string;
+  name: string;
+  participant_names: string[];
+  created_at: number;
+  updated_at: number;
+}
+
+export type ContactInput = Pick<Contact, 'email' | 'name' | 'participant_names'>;
+
+export interface ContactStore {
+  // Name or email containing the query, case-insensitive
+  list(query?: string): Promise<Contact[]>;
+  get(email: string): Promise<Contact | null>;
+  // Contacts linked to a participant name
+  findByParticipant(name: string): Promise<Contact[]>;
+  // Creates the contact, or merges the name and participant names into an existing one
+  save(input: ContactInput): Promise<Contact>;
+  update(email: string, changes: Partial<Omit<ContactInput, 'email'>>): Promise<Contact | null>;
+  remove(email: string): Promise<boolean>;
+}
+
+// What's wrong with a contact as it would be saved, or null if it is valid
+export function contactInputError(input: Partial<ContactInput>): string | null {
+  if (!input.email?.trim() || input.email.includes(',') || invalidAddresses(input.email).length > 0) {
+    return 'A valid email address is required';
+  }
+  if (input.participant_names !== undefined && !Array.isArray(input.participant_names)) {
+    return 'Participant names must be a list';
+  }
+  return null;
+}
+
+function sameName(a: string, b: string) {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+function mergeNames(existing: string[], added: string[]) {
+  return [...existing, ...added.filter(name => name.trim() && !existing.some(known => sameName(known, name)))];
+}
+
+class JsonContactStore implements ContactStore {
+  private contacts = new JsonCollection<Contact>('contacts');
+
+  async list(query = ''): Promise<Contact[]> {
+    const needle = query.trim().toLowerCase();
+    return (await this.contacts.values())
+      .filter(contact => !needle || contact.name.toLowerCase().includes(needle) || contact.email.includes(needle))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  get(email: string): Promise<Contact | null> {
+    return this.contacts.get(normalizeEmail(email));
+  }
+
+  async findByParticipant(name: string): Promise<Contact[]> {
+    return (await this.contacts.values()).filter(contact => contact.participant_names.some(known => sameName(known, name)));
+  }
+
+  save({ email, name, participant_names }: ContactInput): Promise<Contact> {
+    const id = normalizeEmail(email);
+    const now = Math.floor(Date.now() / 1000);
+    return this.contacts.mutate(records => {
+      const existing = records[id];
+      records[id] = existing
+        ? { ...existing, name: name || existing.name, participant_names: mergeNames(existing.participant_names, participant_names), updated_at: now }
+        : { email: id, name: name || id, participant_names: mergeNames([], participant_names), created_at: now, updated_at: now };
+      return records[id];
+    });
+  }
+
+  update(email: string, changes: Partial<Omit<ContactInput, 'email'>>): Promise<Contact | null> {
+    const id = normalizeEmail(email);
+    return this.contacts.mutate(records => {
+      if (!records[id]) return null;
+      records[id] = {
+        ...records[id],
+        ...(changes.name && { name: changes.name }),
+        ...(changes.participant_names && { participant_names: mergeNames([], changes.participant_names) }),
+        updated_at: Math.floor(Date.now() / 1000),
+      };
+      return records[id];
+    });
+  }
+
+  remove(email: string): Promise<boolean> {
+    return this.contacts.delete(normalizeEmail(email));
+  }
+}
+
+export const contactStore: ContactStore = new JsonContactStore();
+
+/**
+ * Add the recipients of a sent email to the contact book. Participant names are only ever linked
+ * by a user: the names found in transcripts are too loose to match people on.
+ */
+export async function rememberRecipients(recipients: string[]): Promise<void> {
+  for (const email of recipients) {
+    await contactStore.save({ email, name: '', participant_names: [] });
+  }
+}
@@ -0,0 +1,238 @@
+import { JsonCollection } from './db';
+import { publish } from './events';
+import { extractParticipantName } from './participants';
+import { Conversation, ConversationDetails, ConversationsResponse } from './types';
+
+const DEFAULT_PAGE_SIZE = 30;
+const MAX_PAGE_SIZE = 100;
+
+export interface ConversationQuery {
+  cursor?: string | null;
+  pageSize?: number;
+  agentId?: string | null;
+  startAfter?: number;
+  startBefore?: number;
+}
+
+export interface TrashEntry {
+  deleted_at: number;
+  deleted_by: string;
+  // When the purge job may hard-delete it upstream
+  purge_after: number;
+}
+
+export type TrashedConversation = Conversation & TrashEntry;
+
+export interface SyncState {
+  last_start_time_unix_secs: number | null;
+  last_synced_at: number | null;
+}
+
+/**
+ * Local copy of the ElevenLabs conversation list and transcripts.
+ * Routes read from here; the sync job is the only thing that writes upstream data in.
+ * Every visible change is published as a dashboard event.
+ */
+export interface ConversationStore {
+  list(query?: ConversationQuery): Promise<ConversationsResponse>;
+  // Trashed conversations are left out unless includeTrashed is set
+  all(options?: { includeTrashed?: boolean }): Promise<Conversation[]>;
+  // Null for trashed conversations unless includeTrashed is set
+  get(id: string, options?: { includeTrashed?: boolean }): Promise<Conversation | null>;
+  // Stored transcript, trashed or not; loadConversationDetails is what routes should use
+  getDetails(id: string): Promise<ConversationDetails | null>;
+  // Every stored transcript by conversation ID, in one read
+  allDetails(): Promise<Record<string, ConversationDetails>>;
+  // Stored transcripts of just these conversations, in one read; ones without a transcript are left out
+  detailsFor(ids: string[]): Promise<Record<string, ConversationDetails>>;
+  upsertMany(conversations: Conversation[]): Promise<void>;
+  saveDetails(details: ConversationDetails[]): Promise<void>;
+  remove(id: string): Promise<void>;
+  // New tag list per conversation; unknown IDs are left out
+  updateTags(ids: string[], changes: { add?: string[]; remove?: string[] }): Promise<Record<string, string[]>>;
+  trash(id: string, entry: TrashEntry): Promise<void>;
+  // False if it wasn't in the trash
+  restore(id: string): Promise<boolean>;
+  listTrash(): Promise<TrashedConversation[]>;
+  isTrashed(id: string): Promise<boolean>;
+  getSyncState(): Promise<SyncState>;
+  setSyncState(state: SyncState): Promise<void>;
+}
+
+// Stands in for a list item when a transcript arrives before the conversation was listed
+function conversationFromDetails(details: ConversationDetails): Conversation {
+  return {
+    agent_id: details.agent_id,
+    agent_name: details.agent_id,
+    conversation_id: details.conversation_id,
+    start_time_unix_secs: details.metadata.start_time_unix_secs,
+    call_duration_secs: details.metadata.call_duration_secs,
+    message_count: details.transcript.length,
+    status: details.status,
+    call_successful: details.analysis.call_successful,
+    transcript_summary: details.analysis.transcript_summary,
+    call_summary_title: details.analysis.call_summary_title ?? null,
+  };
+}
+
+class JsonConversationStore implements ConversationStore {
+  private conversations = new JsonCollection<Conversation>('conversations');
+  private details = new JsonCollection<ConversationDetails>('conversation-details');
+  private meta = new JsonCollection<SyncState>('sync-state');
+  private trashed = new JsonCollection<TrashEntry>('trash');
+
+  async list(query: ConversationQuery = {}): Promise<ConversationsResponse> {
+    const pageSize = Math.min(Math.max(query.pageSize || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+    const offset = Number(query.cursor) || 0;
+
+    const matching = (await this.all()).filter(conv =>
+      (!query.agentId || conv.agent_id === query.agentId) &&
+      (query.startAfter === undefined || conv.start_time_unix_secs > query.startAfter) &&
+      (query.startBefore === undefined || conv.start_time_unix_secs < query.startBefore)
+    );
+
+    const conversations = matching.slice(offset, offset + pageSize);
+    const hasMore = offset + pageSize < matching.length;
+    return {
+      conversations,
+      next_cursor: hasMore ? String(offset + pageSize) : null,
+      has_more: hasMore,
+    };
+  }
+
+  async all({ includeTrashed = false }: { includeTrashed?: boolean } = {}): Promise<Conversation[]> {
+    const trashed = includeTrashed ? {} : await this.trashed.all();
+    return (await this.conversations.values()).filter(conv => !trashed[conv.conversation_id]).sort(
+      (a, b) => b.start_time_unix_secs - a.start_time_unix_secs
+    );
+  }
+
+  async get(id: string, { includeTrashed = false }: { includeTrashed?: boolean } = {}): Promise<Conversation | null> {
+    if (!includeTrashed && (await this.isTrashed(id))) return null;
+    return this.conversations.get(id);
+  }
+
+  getDetails(id: string): Promise<ConversationDetails | null> {
+    return this.details.get(id);
+  }
+
+  allDetails(): Promise<Record<string, ConversationDetails>> {
+    return this.details.all();
+  }
+
+  async detailsFor(ids: string[]): Promise<Record<string, ConversationDetails>> {
+    const all = await this.details.all();
+    return Object.fromEntries(ids.filter(id => all[id]).map(id => [id, all[id]]));
+  }
+
+  // Publish the records that actually changed, leaving out trashed ones
+  private async publishChanged(before: string[], after: Conversation[]): Promise<void> {
+    const trashed = await this.trashed.all();
+    after.forEach((conv, index) => {
+      if (JSON.stringify(conv) !== before[index] && !trashed[conv.conversation_id]) {
+        publish({ type: 'conversation.upserted', conversation: conv });
+      }
+    });
+  }
+
+  async upsertMany(conversations: Conversation[]): Promise<void> {
+    if (conversations.length === 0) return;
+
+    const before: string[] = [];
+    const after = await this.conversations.mutate(records => conversations.map(conv => {
+      before.push(JSON.stringify(records[conv.conversation_id]));
+      // Keep locally derived fields the upstream list doesn't carry
+      records[conv.conversation_id] = { ...records[conv.conversation_id], ...conv };
+      return records[conv.conversation_id];
+    }));
+    await this.publishChanged(before, after);
+  }
+
+  async saveDetails(details: ConversationDetails[]): Promise<void> {
+    if (details.length === 0) return;
+
+    await this.details.mutate(records => {
+      for (const item of details) {
+        records[item.conversation_id] = item;
+      }
+    });
+    const before: string[] = [];
+    const after = await this.conversations.mutate(records => details.map(item => {
+      before.push(JSON.stringify(records[item.conversation_id]));
+      const existing = records[item.conversation_id] ?? conversationFromDetails(item);
+      records[item.conversation_id] = {
+        ...existing,
+        participant_name: extractParticipantName(item.transcript) || null,
+      };
+      return records[item.conversation_id];
+    }));
+    await this.publishChanged(before, after);
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.conversations.delete(id);
+    await this.details.delete(id);
+    await this.trashed.delete(id);
+    publish({ type: 'conversation.removed', conversation_id: id });
+  }
+
+  async updateTags(ids: string[], { add = [], remove = [] }: { add?: string[]; remove?: string[] }): Promise<Record<string, string[]>> {
+    const before: string[] = [];
+    const after: Conversation[] = [];
+    const updated = await this.conversations.mutate(records => {
+      const updated: Record<string, string[]> = {};
+      for (const id of ids) {
+        if (!records[id]) continue;
+        before.push(JSON.stringify(records[id]));
+        const tags = new Set([...(records[id].tags ?? []), ...add]);
+        remove.forEach(tag => tags.delete(tag));
+        records[id] = { ...records[id], tags: [...tags].sort() };
+        after.push(records[id]);
+        updated[id] = records[id].tags!;
+      }
+      return updated;
+    });
+    await this.publishChanged(before, after);
+    return updated;
+  }
+
+  async trash(id: string, entry: TrashEntry): Promise<void> {
+    await this.trashed.put(id, entry);
+    publish({ type: 'conversation.removed', conversation_id: id });
+  }
+
+  async restore(id: string): Promise<boolean> {
+    if (!(await this.trashed.delete(id))) return false;
+
+    const conversation = await this.conversations.get(id);
+    if (conversation) {
+      publish({ type: 'conversation.upserted', conversation });
+    }
+    return true;
+  }
+
+  async listTrash(): Promise<TrashedConversation[]> {
+    const conversations = await this.conversations.all();
+    return Object.entries(await this.trashed.all())
+      .filter(([id]) => conversations[id])
+      .map(([id, entry]) => ({ ...conversations[id], ...entry }))
+      .sort((a, b) => b.deleted_at - a.deleted_at);
+  }
+
+  async isTrashed(id: string): Promise<boolean> {
+    return (await this.trashed.get(id)) !== null;
+  }
+
+  async getSyncState(): Promise<SyncState> {
+    return (await this.meta.get('conversations')) ?? {
+      last_start_time_unix_secs: null,
+      last_synced_at: null,
+    };
+  }
+
+  async setSyncState(state: SyncState): Promise<void> {
+    await this.meta.put('conversations', state);
+  }
+}
+
+export const conversationStore: ConversationStore = new JsonConversationStore();
@@ -0,0 +1,46 @@
+import { loadConversationDetails } from './conversation-sync';
+import { publish } from './events';
+import { LLMClient } from './llm';
+import { summarizeTranscript } from './summarize';
+import { SummaryResult } from './summary';
+import { hashTranscript, summaryStore } from './summary-store';
+
+// Stored summary for the conversation's current transcript, if there is one
+export async function getCachedSummary(conversationId: string): Promise<SummaryResult | null> {
+  const { transcript } = await loadConversationDetails(conversationId);
+  return (await summaryStore.get(conversationId, hashTranscript(transcript)))?.result ?? null;
+}
+
+/**
+ * Summary of a stored conversation: the cached one if its transcript hasn't changed,
+ * otherwise generated and saved. Empty output is returned but not saved.
+ */
+export async function summarizeConversation(
+  llm: LLMClient,
+  conversationId: string
+): Promise<SummaryResult & { cached: boolean }> {
+  // Always the stored transcript, so a caller can't save a summary of something else under this ID
+  const { transcript } = await loadConversationDetails(conversationId);
+  const transcriptHash = hashTranscript(transcript);
+
+  const cached = await summaryStore.get(conversationId, transcriptHash);
+  if (cached) {
+    return { ...cached.result, cached: true };
+  }
+
+  const result = await summarizeTranscript(llm, transcript);
+  if (!result.raw) {
+    return { summary: null, raw: 'No summary generated', cached: false };
+  }
+
+  if (!result.summary) {
+    console.warn('Summary did not match the response schema, returning raw text');
+  }
+  if (result.truncated) {
+    console.warn('Summary output hit the token limit and may be incomplete');
+  }
+
+  await summaryStore.save(conversationId, transcriptHash, result);
+  publish({ type: 'summary.completed', conversation_id: conversationId, result });
+  return { ...result, cached: false };
+}
@@ -0,0 +1,155 @@
+import { conversationStore } from './conversation-store';
+import { ElevenLabsRequestError, getConversation, listConversations } from './elevenlabs';
+import { scheduleFollowUpEmails } from './follow-up-rules';
+import { queueEmbeddingIndex } from './search';
+import { Conversation, ConversationDetails } from './types';
+
+// Conversations in these states won't change upstream any more
+const FINAL_STATUSES = ['done', 'failed'];
+const SYNC_PAGE_SIZE = 100;
+const SYNC_INTERVAL_SECS = Number(process.env.SYNC_INTERVAL_SECS) || 60;
+
+// Unknown here and upstream, or in the trash
+export class ConversationNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Conversation ${id} not found`);
+    this.name = 'ConversationNotFoundError';
+  }
+}
+
+export interface SyncResult {
+  added: number;
+  updated: number;
+  transcripts: number;
+}
+
+let inFlight: Promise<SyncResult> | null = null;
+
+function hasChanged(stored: Conversation, incoming: Conversation) {
+  return stored.status !== incoming.status ||
+    stored.call_successful !== incoming.call_successful ||
+    stored.message_count !== incoming.message_count ||
+    stored.call_summary_title !== incoming.call_summary_title ||
+    stored.transcript_summary !== incoming.transcript_summary;
+}
+
+async function runSync(): Promise<SyncResult> {
+  const state = await conversationStore.getSyncState();
+  // Trashed conversations count as stored, so they aren't re-fetched while waiting to be purged
+  const stored = new Map((await conversationStore.all({ includeTrashed: true })).map(conv => [conv.conversation_id, conv]));
+
+  // Re-list from the newest call we've seen, or further back if an older call was still in progress
+  let startAfter = state.last_start_time_unix_secs;
+  for (const conv of stored.values()) {
+    if (!FINAL_STATUSES.includes(conv.status) && (startAfter === null || conv.start_time_unix_secs < startAfter)) {
+      startAfter = conv.start_time_unix_secs;
+    }
+  }
+
+  const result: SyncResult = { added: 0, updated: 0, transcripts: 0 };
+  let newestStart = state.last_start_time_unix_secs;
+  let cursor: string | undefined;
+
+  do {
+    const page = await listConversations({
+      cursor,
+      page_size: SYNC_PAGE_SIZE,
+      call_start_after_unix: startAfter === null ? undefined : startAfter - 1,
+    });
+
+    const needsTranscript: string[] = [];
+    for (const conv of page.conversations) {
+      const existing = stored.get(conv.conversation_id);
+      const final = FINAL_STATUSES.includes(conv.status);
+      if (!existing) {
+        result.added++;
+      } else if (hasChanged(existing, conv)) {
+        result.updated++;
+      } else {
+        // An earlier run may have stored the call but failed before fetching its transcript
+        if (final && !(await conversationStore.getDetails(conv.conversation_id))) {
+          needsTranscript.push(conv.conversation_id);
+        }
+        continue;
+      }
+      if (final) {
+        needsTranscript.push(conv.conversation_id);
+      }
+      newestStart = Math.max(newestStart ?? 0, conv.start_time_unix_secs);
+    }
+
+    const details = [];
+    for (const id of needsTranscript) {
+      details.push(await getConversation(id));
+    }
+    await conversationStore.saveDetails(details);
+    for (const item of details) {
+      await scheduleFollowUpEmails(item);
+    }
+
+    // Only after the transcripts are in: a failed fetch leaves the page unsaved, so the next run tries again
+    await conversationStore.upsertMany(page.conversations);
+    result.transcripts += details.length;
+
+    cursor = page.has_more && page.next_cursor ? page.next_cursor : undefined;
+  } while (cursor);
+
+  if (result.transcripts > 0) {
+    await queueEmbeddingIndex();
+  }
+
+  await conversationStore.setSyncState({
+    last_start_time_unix_secs: newestStart,
+    last_synced_at: Math.floor(Date.now() / 1000),
+  });
+
+  return result;
+}
+
+/**
+ * Pull new and changed conversations from ElevenLabs into the local store.
+ * Concurrent callers share a single run.
+ */
+export function syncConversations(): Promise<SyncResult> {
+  if (!inFlight) {
+    inFlight = runSync().finally(() => {
+      inFlight = null;
+    });
+  }
+  return inFlight;
+}
+
+// Sync only when the last run is older than SYNC_INTERVAL_SECS; failures fall back to stored data
+export async function syncIfStale(): Promise<void> {
+  const { last_synced_at } = await conversationStore.getSyncState();
+  if (last_synced_at !== null && Date.now() / 1000 - last_synced_at < SYNC_INTERVAL_SECS) {
+    return;
+  }
+
+  try {
+    await syncConversations();
+  } catch (error) {
+    console.error('Error syncing conversations, serving stored data:', error);
+  }
+}
+
+// Stored transcript, or fetched once and kept if the sync hasn't picked it up yet
+export async function loadConversationDetails(id: string): Promise<ConversationDetails> {
+  if (await conversationStore.isTrashed(id)) {
+    throw new ConversationNotFoundError(id);
+  }
+
+  let details = await conversationStore.getDetails(id);
+  if (!details) {
+    try {
+      details = await getConversation(id);
+    } catch (error) {
+      if (error instanceof ElevenLabsRequestError && error.status === 404) {
+        throw new ConversationNotFoundError(id);
+      }
+      throw error;
+    }
+    await conversationStore.saveDetails([details]);
+  }
+  return details;
+}
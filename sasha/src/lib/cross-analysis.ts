@@ -0,0 +1,166 @@
+import {
+  chunkTranscript,
+  estimateTranscriptTokens,
+  selectRelevantChunks,
+  TRANSCRIPT_TOKEN_BUDGET,
+  TranscriptChunk,
+} from './chunking';
+import { Citation, formatCallTime } from './citations';
+import { conversationStore } from './conversation-store';
+import { loadConversationDetails } from './conversation-sync';
+import { getGenerationConfig, LLMClient } from './llm';
+import { searchConversations } from './search';
+import { Conversation, TranscriptTurn } from './types';
+
+const MAX_CONVERSATIONS = Number(process.env.CROSS_ANALYSIS_MAX_CONVERSATIONS) || 10;
+
+export interface ConversationFilter {
+  // Matches either the agent ID or the agent name
+  agent?: string;
+  startAfter?: number;
+  startBefore?: number;
+  success?: string;
+  status?: string;
+}
+
+export interface ConversationCitation extends Citation {
+  conversation_id: string;
+}
+
+export interface AnalyzedConversation {
+  // Label the answer cites the conversation by, e.g. C2
+  label: string;
+  conversation_id: string;
+  call_summary_title: string | null;
+  agent_name: string;
+  start_time_unix_secs: number;
+}
+
+export interface CrossAnalysisResult {
+  answer: string;
+  citations: ConversationCitation[];
+  conversations: AnalyzedConversation[];
+  // Conversations passing the filter, of which `conversations` were put in the prompt
+  matching_total: number;
+}
+
+interface Source {
+  conversation: AnalyzedConversation;
+  transcript: TranscriptTurn[];
+  excerpts: TranscriptChunk[];
+}
+
+export function matchesFilter(conversation: Conversation, filter: ConversationFilter): boolean {
+  return (!filter.agent || conversation.agent_id === filter.agent || conversation.agent_name === filter.agent) &&
+    (filter.startAfter === undefined || conversation.start_time_unix_secs >= filter.startAfter) &&
+    (filter.startBefore === undefined || conversation.start_time_unix_secs < filter.startBefore) &&
+    (!filter.success || conversation.call_successful === filter.success) &&
+    (!filter.status || conversation.status === filter.status);
+}
+
+// Whole transcript when it fits the budget, otherwise the chunks closest to the question and the search hits
+function selectExcerpts(transcript: TranscriptTurn[], query: string, budget: number): TranscriptChunk[] {
+  const tokens = estimateTranscriptTokens(transcript);
+  if (tokens <= budget) {
+    return [{ start_index: 0, turns: transcript, tokens }];
+  }
+  return selectRelevantChunks(chunkTranscript(transcript, Math.max(Math.floor(budget / 2), 200)), query, budget);
+}
+
+function formatSource({ conversation, excerpts }: Source): string {
+  const date = new Date(conversation.start_time_unix_secs * 1000).toISOString().slice(0, 10);
+  const turns = excerpts.map(chunk => chunk.turns.map((turn, index) =>
+    `[${conversation.label}:${chunk.start_index + index + 1}] ${turn.role.toUpperCase()} (${formatCallTime(turn.time_in_call_secs)}): ${turn.message}`
+  ).join('\n\n')).join('\n\n[...]\n\n');
+  return `=== ${conversation.label}: ${conversation.call_summary_title || 'Untitled call'} (agent ${conversation.agent_name}, ${date}) ===\n${turns}`;
+}
+
+// Every valid [C<n>:<turn>] marker in the answer, once each, grouped by conversation
+function extractConversationCitations(answer: string, sources: Source[]): ConversationCitation[] {
+  const seen = new Set<string>();
+  const citations: ConversationCitation[] = [];
+  for (const match of answer.matchAll(/\[C(\d+):(\d+)\]/g)) {
+    const source = sources[Number(match[1]) - 1];
+    const index = Number(match[2]) - 1;
+    const key = `${match[1]}:${index}`;
+    if (!source || index < 0 || index >= source.transcript.length || seen.has(key)) continue;
+    seen.add(key);
+    citations.push({
+      conversation_id: source.conversation.conversation_id,
+      turn_index: index,
+      role: source.transcript[index].role,
+      time_in_call_secs: source.transcript[index].time_in_call_secs,
+    });
+  }
+
+  const order = new Map(sources.map((source, index) => [source.conversation.conversation_id, index]));
+  return citations.sort((a, b) =>
+    order.get(a.conversation_id)! - order.get(b.conversation_id)! || a.turn_index - b.turn_index
+  );
+}
+
+/**
+ * Answer a question over every stored conversation passing the filter.
+ * Retrieval picks the most relevant conversations (topped up with the most recent ones),
+ * and each contributes an excerpt within an equal share of the transcript budget.
+ */
+export async function analyzeConversations(
+  llm: LLMClient,
+  question: string,
+  filter: ConversationFilter = {}
+): Promise<CrossAnalysisResult> {
+  const matching = (await conversationStore.all()).filter(conv => matchesFilter(conv, filter));
+  const { results } = await searchConversations(question, {
+    limit: MAX_CONVERSATIONS,
+    llm,
+    filter: conv => matchesFilter(conv, filter),
+  });
+
+  // Search hits first; broad questions ("what objections came up?") may not hit anything, so fill with recent calls
+  const hits = new Map(results.map(result => [result.conversation_id, result]));
+  const selected = [
+    ...results.map(result => matching.find(conv => conv.conversation_id === result.conversation_id)!),
+    ...matching.filter(conv => !hits.has(conv.conversation_id)),
+  ].filter(Boolean).slice(0, MAX_CONVERSATIONS);
+
+  if (selected.length === 0) {
+    return { answer: '', citations: [], conversations: [], matching_total: 0 };
+  }
+
+  const budget = Math.floor(TRANSCRIPT_TOKEN_BUDGET / selected.length);
+  const sources: Source[] = [];
+  for (const conversation of selected) {
+    const { transcript } = await loadConversationDetails(conversation.conversation_id);
+    const snippets = hits.get(conversation.conversation_id)?.matches.map(match => match.snippet) ?? [];
+    sources.push({
+      conversation: {
+        label: `C${sources.length + 1}`,
+        conversation_id: conversation.conversation_id,
+        call_summary_title: conversation.call_summary_title,
+        agent_name: conversation.agent_name,
+        start_time_unix_secs: conversation.start_time_unix_secs,
+      },
+      transcript,
+      excerpts: selectExcerpts(transcript, [question, ...snippets].join(' '), budget),
+    });
+  }
+
+  const system = `You answer questions that span several customer conversations, accurately and concisely.
+Each conversation is labelled C1, C2, ... and each of its turns is numbered, e.g. [C2:5] is turn 5 of conversation C2.
+Long conversations only include the excerpts most relevant to the question; [...] marks omitted parts.${matching.length > selected.length ? `
+These are the ${selected.length} most relevant of ${matching.length} matching conversations.` : ''}
+
+CONVERSATIONS:
+${sources.map(formatSource).join('\n\n')}
+
+Answer based only on these conversations. Aggregate across them where the question asks for it (themes, counts, who said what) and say when only some conversations are relevant. Cite the turns that support each statement in square brackets, e.g. [C1:3] or [C2:4][C3:7].`;
+
+  const { text } = await llm.generate({ prompt: question, system, ...getGenerationConfig('analyze') });
+
+  return {
+    answer: text,
+    citations: extractConversationCitations(text, sources),
+    conversations: sources.map(source => source.conversation),
+    matching_total: matching.length,
+  };
+}
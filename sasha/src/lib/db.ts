@@ -0,0 +1,78 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export const DATA_DIR = process.env.DATA_DIR || path.join(process.cwd(), '.data');
+
+// Writes to the same file are chained so concurrent requests can't interleave
+const writeQueues = new Map<string, Promise<unknown>>();
+
+/**
+ * A keyed set of records persisted as a single JSON file under DATA_DIR.
+ * Reads always go to disk, writes replace the file atomically and are skipped when nothing changed.
+ */
+export class JsonCollection<T> {
+  private readonly file: string;
+
+  constructor(name: string) {
+    this.file = path.join(DATA_DIR, `${name}.json`);
+  }
+
+  // The file as written, or an empty collection if it doesn't exist yet
+  private async read(): Promise<string> {
+    try {
+      return await fs.readFile(this.file, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return '{}';
+      }
+      throw error;
+    }
+  }
+
+  async all(): Promise<Record<string, T>> {
+    return JSON.parse(await this.read());
+  }
+
+  async values(): Promise<T[]> {
+    return Object.values(await this.all());
+  }
+
+  async get(id: string): Promise<T | null> {
+    return (await this.all())[id] ?? null;
+  }
+
+  async put(id: string, value: T): Promise<T> {
+    await this.mutate(records => {
+      records[id] = value;
+    });
+    return value;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.mutate(records => {
+      const existed = id in records;
+      delete records[id];
+      return existed;
+    });
+  }
+
+  async mutate<R>(fn: (records: Record<string, T>) => R): Promise<R> {
+    const previous = writeQueues.get(this.file) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(async () => {
+      const before = await this.read();
+      const records: Record<string, T> = JSON.parse(before);
+      const result = fn(records);
+      const after = JSON.stringify(records);
+      // Pollers mutate to check for work; most of the time there is nothing to write
+      if (after === before) return result;
+
+      await fs.mkdir(DATA_DIR, { recursive: true });
+      const tmpFile = `${this.file}.${process.pid}.tmp`;
+      await fs.writeFile(tmpFile, after);
+      await fs.rename(tmpFile, this.file);
+      return result;
+    });
+    writeQueues.set(this.file, next);
+    return next;
+  }
+}
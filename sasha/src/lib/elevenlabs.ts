@@ -0,0 +1,92 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { Conversation, ConversationDetails, ConversationsResponse } from './types';
+
+const ELEVENLABS_API_URL = 'https://api.elevenlabs.io/v1/convai';
+
+export interface ListConversationsParams {
+  cursor?: string;
+  page_size?: number;
+  agent_id?: string;
+  call_start_before_unix?: number;
+  call_start_after_unix?: number;
+}
+
+// ElevenLabs retries for a while, but anything older than this is treated as a replay
+const WEBHOOK_TOLERANCE_SECS = 30 * 60;
+
+export interface PostCallWebhookEvent {
+  type: 'post_call_transcription' | string;
+  event_timestamp: number;
+  data: ConversationDetails;
+}
+
+export class ElevenLabsRequestError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'ElevenLabsRequestError';
+  }
+}
+
+async function elevenLabsFetch(path: string, init: RequestInit = {}): Promise<Response> {
+  const apiKey = process.env.ELEVENLABS_API_KEY;
+
+  if (!apiKey) {
+    throw new Error('ElevenLabs API key not configured');
+  }
+
+  const response = await fetch(`${ELEVENLABS_API_URL}${path}`, {
+    ...init,
+    headers: {
+      ...init.headers,
+      'xi-api-key': apiKey,
+    },
+  });
+
+  if (!response.ok) {
+    throw new ElevenLabsRequestError(`API request failed: ${response.status}`, response.status);
+  }
+
+  return response;
+}
+
+export async function listConversations(params: ListConversationsParams = {}): Promise<ConversationsResponse> {
+  const query = new URLSearchParams({ summary_mode: 'include' });
+  for (const [name, value] of Object.entries(params)) {
+    if (value !== undefined && value !== '') {
+      query.set(name, String(value));
+    }
+  }
+
+  const response = await elevenLabsFetch(`/conversations?${query}`);
+  const data = await response.json();
+  return {
+    conversations: data.conversations as Conversation[],
+    next_cursor: data.next_cursor ?? null,
+    has_more: Boolean(data.has_more),
+  };
+}
+
+export async function getConversation(id: string): Promise<ConversationDetails> {
+  const response = await elevenLabsFetch(`/conversations/${id}`);
+  return response.json();
+}
+
+export async function deleteConversation(id: string): Promise<void> {
+  await elevenLabsFetch(`/conversations/${id}`, { method: 'DELETE' });
+}
+
+/**
+ * Check an `ElevenLabs-Signature: t=<unix secs>,v0=<hex>` header, where v0 is the
+ * HMAC-SHA256 of `<t>.<raw body>` with the webhook secret.
+ */
+export function verifyWebhookSignature(rawBody: string, header: string | null, secret: string): boolean {
+  const parts = Object.fromEntries((header ?? '').split(',').map(part => part.trim().split('=', 2) as [string, string]));
+  const timestamp = Number(parts.t);
+  if (!parts.v0 || !timestamp || Math.abs(Date.now() / 1000 - timestamp) > WEBHOOK_TOLERANCE_SECS) {
+    return false;
+  }
+
+  const expected = createHmac('sha256', secret).update(`${timestamp}.${rawBody}`).digest();
+  const actual = Buffer.from(parts.v0, 'hex');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
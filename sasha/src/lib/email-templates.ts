@@ -0,0 +1,215 @@
+import { randomUUID } from 'crypto';
+import { JsonCollection } from './db';
+import { mailSettings } from './mail';
+import { formatSummaryText, SummaryResult } from './summary';
+
+export const DEFAULT_TEMPLATE_ID = 'agenda';
+
+// Placeholders a template can use as {{name}}, with what they stand for
+export const TEMPLATE_VARIABLES: Record<string, string> = {
+  recipient: 'Who the email is addressed to',
+  sender: 'The sender name configured for this pilot',
+  date: 'Today\'s date',
+  summary: 'The whole call summary: issue, goal and next steps',
+  issue: 'The issue from the summary',
+  goal: 'The goal from the summary',
+  next_steps: 'The next steps from the summary, as a bulleted list',
+};
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+const MISSING_SUMMARY = 'Unable to generate meeting agenda at this time.';
+
+/**
+ * An email written as plain text with {{variables}}. Blank lines separate paragraphs and
+ * lines starting with "- " become bullet lists in the HTML version.
+ */
+export interface EmailTemplate {
+  id: string;
+  name: string;
+  subject: string;
+  body: string;
+  created_at: number;
+  updated_at: number;
+}
+
+export type EmailTemplateInput = Pick<EmailTemplate, 'name' | 'subject' | 'body'>;
+
+export interface TemplateContext {
+  recipient: string;
+  summary: SummaryResult | null;
+  date?: Date;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+// The agenda email as it was sent before templates existed; editing it stores an override
+const DEFAULT_TEMPLATE: EmailTemplate = {
+  id: DEFAULT_TEMPLATE_ID,
+  name: 'Meeting agenda',
+  subject: 'Agenda for Our Upcoming Meeting',
+  body: `Dear {{recipient}},
+
+I hope this email finds you well! Here are some ideas that I wanted to share about talking to you in our meeting:
+
+{{summary}}
+
+Looking forward to our discussion!
+
+Best regards,
+{{sender}}
+
+---
+Meeting prep from conversation on {{date}}`,
+  created_at: 0,
+  updated_at: 0,
+};
+
+// Shown in the editor's preview when no conversation is picked
+export const SAMPLE_SUMMARY: SummaryResult = {
+  summary: {
+    issue: 'Their current scheduling tool double-books rooms',
+    goal: 'Move the team to a shared calendar before next quarter',
+    nextSteps: ['Send pricing for 25 seats', 'Book a demo with their IT lead'],
+  },
+  raw: '',
+};
+
+// What's wrong with a template as it would be saved, or null if it is valid
+export function templateInputError(input: EmailTemplateInput): string | null {
+  if (!input.name?.trim() || !input.subject?.trim() || !input.body?.trim()) {
+    return 'Name, subject and body are required';
+  }
+  const unknown = [...`${input.subject}\n${input.body}`.matchAll(VARIABLE_PATTERN)]
+    .map(match => match[1])
+    .filter(name => !Object.hasOwn(TEMPLATE_VARIABLES, name));
+  if (unknown.length > 0) {
+    return `Unknown variables: ${[...new Set(unknown)].join(', ')}`;
+  }
+  return null;
+}
+
+function templateValues({ recipient, summary, date = new Date() }: TemplateContext): Record<string, string> {
+  const structured = summary?.summary;
+  return {
+    recipient,
+    sender: mailSettings().fromName,
+    date: date.toLocaleDateString(),
+    summary: (summary && formatSummaryText(summary)) || MISSING_SUMMARY,
+    issue: structured?.issue ?? '',
+    goal: structured?.goal ?? '',
+    next_steps: structured?.nextSteps.map(step => `- ${step}`).join('\n') ?? '',
+  };
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+// Paragraphs, "- " bullet lists and "---" rules; everything else is escaped text.
+// Also turns hand-edited email text into its HTML version.
+export function textToHtml(text: string): string {
+  const blocks = text.split(/\n{2,}/).map(block => {
+    const parts: string[] = [];
+    let bullets: string[] = [];
+    let lines: string[] = [];
+    const flush = () => {
+      if (lines.length > 0) parts.push(`<p>${lines.join('<br>')}</p>`);
+      if (bullets.length > 0) parts.push(`<ul>${bullets.map(item => `<li>${item}</li>`).join('')}</ul>`);
+      lines = [];
+      bullets = [];
+    };
+
+    for (const line of block.split('\n')) {
+      if (line.trim() === '---') {
+        flush();
+        parts.push('<hr>');
+      } else if (line.startsWith('- ')) {
+        if (lines.length > 0) flush();
+        bullets.push(escapeHtml(line.slice(2)));
+      } else {
+        if (bullets.length > 0) flush();
+        lines.push(escapeHtml(line));
+      }
+    }
+    flush();
+    return parts.join('\n');
+  });
+
+  return `<!DOCTYPE html>
+<html>
+<body style="font-family: -apple-system, 'Segoe UI', Helvetica, Arial, sans-serif; font-size: 15px; line-height: 1.5; color: #111827;">
+${blocks.join('\n')}
+</body>
+</html>`;
+}
+
+/**
+ * Fill in a template's variables. The text and HTML versions come from the same source,
+ * so previews and sent emails can't drift apart.
+ */
+export function renderEmailTemplate(template: Pick<EmailTemplate, 'subject' | 'body'>, context: TemplateContext): RenderedEmail {
+  const values = templateValues(context);
+  const fill = (source: string) => source.replace(VARIABLE_PATTERN, (match, name: string) => (Object.hasOwn(values, name) ? values[name] : match));
+  const text = fill(template.body);
+  return {
+    subject: fill(template.subject).replace(/\s*\n\s*/g, ' '),
+    text,
+    html: textToHtml(text),
+  };
+}
+
+export interface EmailTemplateStore {
+  // The default template is always included
+  list(): Promise<EmailTemplate[]>;
+  get(id: string): Promise<EmailTemplate | null>;
+  create(input: EmailTemplateInput): Promise<EmailTemplate>;
+  update(id: string, changes: Partial<EmailTemplateInput>): Promise<EmailTemplate | null>;
+  // Removing the default template resets it
+  remove(id: string): Promise<boolean>;
+}
+
+class JsonEmailTemplateStore implements EmailTemplateStore {
+  private templates = new JsonCollection<EmailTemplate>('email-templates');
+
+  async list(): Promise<EmailTemplate[]> {
+    const stored = await this.templates.all();
+    return [stored[DEFAULT_TEMPLATE_ID] ?? DEFAULT_TEMPLATE, ...Object.values(stored)
+      .filter(template => template.id !== DEFAULT_TEMPLATE_ID)
+      .sort((a, b) => a.name.localeCompare(b.name))];
+  }
+
+  async get(id: string): Promise<EmailTemplate | null> {
+    return (await this.templates.get(id)) ?? (id === DEFAULT_TEMPLATE_ID ? DEFAULT_TEMPLATE : null);
+  }
+
+  create(input: EmailTemplateInput): Promise<EmailTemplate> {
+    const now = Math.floor(Date.now() / 1000);
+    const id = randomUUID();
+    return this.templates.put(id, { id, ...input, created_at: now, updated_at: now });
+  }
+
+  update(id: string, changes: Partial<EmailTemplateInput>): Promise<EmailTemplate | null> {
+    return this.templates.mutate(records => {
+      const existing = records[id] ?? (id === DEFAULT_TEMPLATE_ID ? DEFAULT_TEMPLATE : null);
+      if (!existing) return null;
+      records[id] = { ...existing, ...changes, updated_at: Math.floor(Date.now() / 1000) };
+      return records[id];
+    });
+  }
+
+  async remove(id: string): Promise<boolean> {
+    return (await this.templates.delete(id)) || id === DEFAULT_TEMPLATE_ID;
+  }
+}
+
+export const emailTemplateStore: EmailTemplateStore = new JsonEmailTemplateStore();
+
+// Render a stored template, falling back to the default one if it has been deleted
+export async function renderStoredTemplate(templateId: string | null | undefined, context: TemplateContext): Promise<RenderedEmail> {
+  const template = (templateId && await emailTemplateStore.get(templateId)) || (await emailTemplateStore.get(DEFAULT_TEMPLATE_ID))!;
+  return renderEmailTemplate(template, context);
+}
@@ -0,0 +1,35 @@
+import { EventEmitter } from 'events';
+import type { OutboxEmail } from './outbox';
+import { SummaryResult } from './summary';
+import { Conversation } from './types';
+
+// Changes the dashboard shows live, pushed over /api/events
+export type DashboardEvent =
+  | { type: 'conversation.upserted'; conversation: Conversation }
+  | { type: 'conversation.removed'; conversation_id: string }
+  | { type: 'summary.completed'; conversation_id: string; result: SummaryResult }
+  | { type: 'email.updated'; email: OutboxEmail };
+
+// Kept on globalThis so route handlers and the job worker share one bus, even across dev-server reloads
+const bus = globalThis as typeof globalThis & { __dashboardEvents?: EventEmitter };
+
+function emitter(): EventEmitter {
+  if (!bus.__dashboardEvents) {
+    bus.__dashboardEvents = new EventEmitter();
+    // One listener per open dashboard tab
+    bus.__dashboardEvents.setMaxListeners(0);
+  }
+  return bus.__dashboardEvents;
+}
+
+export function publish(event: DashboardEvent): void {
+  emitter().emit('event', event);
+}
+
+// Returns the unsubscribe function
+export function subscribe(listener: (event: DashboardEvent) => void): () => void {
+  emitter().on('event', listener);
+  return () => {
+    emitter().off('event', listener);
+  };
+}
@@ -0,0 +1,31 @@
+import { summarizeConversation } from './conversation-summary';
+import { renderStoredTemplate } from './email-templates';
+import { LLMClient } from './llm';
+import { EmailMessage } from './mail';
+import { queueEmail } from './outbox';
+import { SummaryResult } from './summary';
+
+// The meeting agenda email sent after a call, greeting the recipient by name; the default template unless one is picked
+export async function composeAgendaEmail(
+  recipient: string,
+  summaryResult: SummaryResult,
+  templateId?: string | null
+): Promise<Omit<EmailMessage, 'to'>> {
+  return renderStoredTemplate(templateId, { recipient, summary: summaryResult });
+}
+
+// Summarize the conversation (or reuse its stored summary) and put the agenda for one or more comma-separated addresses in the outbox
+export async function queueFollowUpEmail(
+  llm: LLMClient,
+  conversationId: string,
+  recipient: string,
+  name = recipient,
+  templateId?: string | null
+): Promise<{ recipient: string; email_id: string }> {
+  const summary = await summarizeConversation(llm, conversationId);
+  const email = await queueEmail(
+    { to: recipient, ...(await composeAgendaEmail(name, summary, templateId)) },
+    { conversationId, actor: 'system' }
+  );
+  return { recipient, email_id: email.id };
+}
@@ -0,0 +1,136 @@
+import { randomUUID } from 'crypto';
+import { auditLog } from './audit-log';
+import { JsonCollection } from './db';
+import { jobStore } from './jobs';
+import { extractParticipantEmail, extractParticipantName } from './participants';
+import { ConversationDetails } from './types';
+
+const EMAIL_PATTERN = /^[^\s@,]+@[^\s@,]+\.[^\s@,]+$/;
+
+/**
+ * "When a call for this agent finishes with this outcome, email the agenda to the participant
+ * or to a fixed list after N minutes."
+ */
+export interface FollowUpRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  // null matches every agent
+  agent_id: string | null;
+  // ElevenLabs call_successful value (success, failure, unknown); null matches any outcome
+  call_successful: string | null;
+  recipient: 'participant' | 'fixed';
+  // Only used for fixed recipients
+  emails: string[];
+  delay_minutes: number;
+  // Email template to send; null for the default agenda template
+  template_id: string | null;
+  // Unix seconds; calls that ended before the rule existed are never emailed
+  created_at: number;
+  updated_at: number;
+}
+
+export type FollowUpRuleInput = Pick<
+  FollowUpRule,
+  'name' | 'enabled' | 'agent_id' | 'call_successful' | 'recipient' | 'emails' | 'delay_minutes' | 'template_id'
+>;
+
+export interface FollowUpRuleStore {
+  list(): Promise<FollowUpRule[]>;
+  get(id: string): Promise<FollowUpRule | null>;
+  create(input: FollowUpRuleInput): Promise<FollowUpRule>;
+  update(id: string, changes: Partial<FollowUpRuleInput>): Promise<FollowUpRule | null>;
+  remove(id: string): Promise<boolean>;
+}
+
+// What's wrong with a rule as it would be saved, or null if it is valid
+export function ruleInputError(input: FollowUpRuleInput): string | null {
+  if (!input.name?.trim()) {
+    return 'Name is required';
+  }
+  if (input.recipient !== 'participant' && input.recipient !== 'fixed') {
+    return 'Recipient must be participant or fixed';
+  }
+  if (input.recipient === 'fixed' && (input.emails.length === 0 || !input.emails.every(email => EMAIL_PATTERN.test(email)))) {
+    return 'Fixed recipients need at least one valid email address';
+  }
+  if (!Number.isFinite(input.delay_minutes) || input.delay_minutes < 0) {
+    return 'Delay must be zero or more minutes';
+  }
+  return null;
+}
+
+class JsonFollowUpRuleStore implements FollowUpRuleStore {
+  private rules = new JsonCollection<FollowUpRule>('follow-up-rules');
+
+  async list(): Promise<FollowUpRule[]> {
+    return (await this.rules.values()).sort((a, b) => a.created_at - b.created_at);
+  }
+
+  get(id: string): Promise<FollowUpRule | null> {
+    return this.rules.get(id);
+  }
+
+  create(input: FollowUpRuleInput): Promise<FollowUpRule> {
+    const now = Math.floor(Date.now() / 1000);
+    const id = randomUUID();
+    return this.rules.put(id, { id, ...input, created_at: now, updated_at: now });
+  }
+
+  update(id: string, changes: Partial<FollowUpRuleInput>): Promise<FollowUpRule | null> {
+    return this.rules.mutate(records => {
+      if (!records[id]) return null;
+      records[id] = { ...records[id], ...changes, updated_at: Math.floor(Date.now() / 1000) };
+      return records[id];
+    });
+  }
+
+  remove(id: string): Promise<boolean> {
+    return this.rules.delete(id);
+  }
+}
+
+export const followUpRuleStore: FollowUpRuleStore = new JsonFollowUpRuleStore();
+
+function matches(rule: FollowUpRule, details: ConversationDetails): boolean {
+  const endedAt = details.metadata.start_time_unix_secs + details.metadata.call_duration_secs;
+  return rule.enabled &&
+    details.status === 'done' &&
+    (!rule.agent_id || rule.agent_id === details.agent_id) &&
+    (!rule.call_successful || rule.call_successful === details.analysis.call_successful) &&
+    endedAt >= rule.created_at;
+}
+
+/**
+ * Queue the follow-up email of every rule matching a finished call. Each rule emails a call
+ * at most once, however often the call is synced or its webhook delivered.
+ */
+export async function scheduleFollowUpEmails(details: ConversationDetails): Promise<void> {
+  const id = details.conversation_id;
+
+  for (const rule of (await followUpRuleStore.list()).filter(rule => matches(rule, details))) {
+    const participantName = extractParticipantName(details.transcript);
+    // Only an address the caller gave on the call itself; nobody reviews who an automatic email goes to
+    const recipient = rule.recipient === 'fixed' ? rule.emails.join(',') : extractParticipantEmail(details);
+    if (!recipient) {
+      const skipped = await auditLog.list({ targetId: id, actions: ['follow_up_email.skipped'] });
+      if (skipped.some(entry => entry.details?.rule_id === rule.id)) continue;
+
+      await auditLog.record({
+        action: 'follow_up_email.skipped',
+        actor: 'system',
+        target_id: id,
+        details: { rule_id: rule.id, rule_name: rule.name, reason: 'No participant email found' },
+      });
+      continue;
+    }
+
+    await jobStore.enqueue('follow_up_email', `follow_up_email:${rule.id}:${id}`, {
+      conversation_id: id,
+      rule_id: rule.id,
+      recipient,
+      name: (rule.recipient === 'participant' && participantName) || recipient,
+      template_id: rule.template_id ?? '',
+    }, { unique: true, runAfter: Date.now() + rule.delay_minutes * 60 * 1000 });
+  }
+}
@@ -0,0 +1,153 @@
+import { auditLog } from './audit-log';
+import { conversationStore } from './conversation-store';
+import { summarizeConversation } from './conversation-summary';
+import { ConversationNotFoundError } from './conversation-sync';
+import { queueFollowUpEmail } from './follow-up-email';
+import { followUpRuleStore } from './follow-up-rules';
+import { Job, jobStore, JobType } from './jobs';
+import { getLLMClient, LLMRequestError, rateLimited } from './llm';
+import { deliverOutboxEmail, markOutboxFailed } from './outbox';
+import { indexEmbeddings } from './search';
+
+const CONCURRENCY = Number(process.env.JOB_CONCURRENCY) || 2;
+const POLL_INTERVAL_MS = 1000;
+const BASE_RETRY_DELAY_MS = 5000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+// Configuration problems that a retry won't fix
+const NOT_RETRYABLE = [
+  'LLM provider not configured',
+  'Mail transport not configured',
+  'SMTP server does not support TLS; refusing to send credentials in plain text',
+];
+
+type JobHandler = (payload: Record<string, string>) => Promise<unknown>;
+
+function jobLLMClient() {
+  const client = getLLMClient();
+  if (!client) {
+    throw new Error('LLM provider not configured');
+  }
+  return rateLimited(client);
+}
+
+const handlers: Record<JobType, JobHandler> = {
+  summary: ({ conversation_id }) => summarizeConversation(jobLLMClient(), conversation_id),
+  async follow_up_email({ conversation_id, rule_id, recipient, name, template_id }) {
+    // The rule or the conversation may have changed during the delay
+    const rule = await followUpRuleStore.get(rule_id);
+    const reason = !rule ? 'Rule was deleted'
+      : !rule.enabled ? 'Rule was disabled'
+      : await conversationStore.isTrashed(conversation_id) ? 'Conversation was deleted'
+      : null;
+    if (reason) {
+      await auditLog.record({
+        action: 'follow_up_email.skipped',
+        actor: 'system',
+        target_id: conversation_id,
+        details: { rule_id, rule_name: rule?.name, reason },
+      });
+      return { skipped: reason };
+    }
+
+    const result = await queueFollowUpEmail(jobLLMClient(), conversation_id, recipient, name, template_id);
+    await auditLog.record({
+      action: 'follow_up_email.queued',
+      actor: 'system',
+      target_id: conversation_id,
+      details: { rule_id, recipient, email_id: result.email_id },
+    });
+    return result;
+  },
+  outbox_email: ({ outbox_id }) => deliverOutboxEmail(outbox_id),
+  embeddings: () => indexEmbeddings(jobLLMClient()),
+};
+
+// Run once a job has failed for good, to mark whatever it was working on
+const failureHandlers: Partial<Record<JobType, (payload: Record<string, string>, error: string) => Promise<void>>> = {
+  outbox_email: ({ outbox_id }, error) => markOutboxFailed(outbox_id, error),
+};
+
+// Rate limits, provider outages and network failures are worth retrying; bad requests are not
+function isRetryable(error: unknown): boolean {
+  if (error instanceof ConversationNotFoundError) {
+    return false;
+  }
+  if (error instanceof LLMRequestError) {
+    return error.status === 429 || error.status >= 500;
+  }
+  return !(error instanceof Error && NOT_RETRYABLE.includes(error.message));
+}
+
+function retryDelay(attempts: number): number {
+  const delay = Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+  // Jitter so retries from one burst don't line up again
+  return delay * (0.75 + Math.random() * 0.5);
+}
+
+async function runJob(job: Job): Promise<void> {
+  try {
+    const result = await handlers[job.type](job.payload);
+    await jobStore.update(job.id, { status: 'succeeded', result, last_error: null });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const retry = isRetryable(error) && job.attempts < job.max_attempts;
+    console.error(`Error running ${job.type} job ${job.id} (attempt ${job.attempts}/${job.max_attempts}):`, error);
+    await jobStore.update(job.id, retry
+      ? { status: 'queued', run_after: Date.now() + retryDelay(job.attempts), last_error: message }
+      : { status: 'failed', last_error: message }
+    );
+    if (!retry) {
+      await failureHandlers[job.type]?.(job.payload, message);
+    }
+  }
+}
+
+interface WorkerState {
+  running: number;
+  polling: boolean;
+}
+
+// Kept on globalThis so dev-server module reloads don't start a second worker
+const worker = globalThis as typeof globalThis & { __jobWorker?: WorkerState };
+
+async function tick(state: WorkerState): Promise<void> {
+  if (state.polling) return;
+
+  state.polling = true;
+  try {
+    const jobs = await jobStore.claimDue(CONCURRENCY - state.running);
+    for (const job of jobs) {
+      state.running++;
+      runJob(job).finally(() => {
+        state.running--;
+      });
+    }
+  } finally {
+    state.polling = false;
+  }
+}
+
+/**
+ * Start polling for due jobs in this server process, at most CONCURRENCY at a time.
+ * Safe to call repeatedly.
+ */
+export async function startJobWorker(): Promise<void> {
+  if (worker.__jobWorker) return;
+
+  const state: WorkerState = { running: 0, polling: true };
+  worker.__jobWorker = state;
+
+  try {
+    const requeued = await jobStore.requeueRunning();
+    if (requeued > 0) {
+      console.log(`Requeued ${requeued} jobs left running by a previous process`);
+    }
+  } finally {
+    state.polling = false;
+  }
+
+  setInterval(() => {
+    tick(state).catch(error => console.error('Error polling job queue:', error));
+  }, POLL_INTERVAL_MS);
+}
@@ -0,0 +1,139 @@
+import { randomUUID } from 'crypto';
+import { JsonCollection } from './db';
+
+export type JobType = 'summary' | 'follow_up_email' | 'outbox_email' | 'embeddings';
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+export interface Job {
+  id: string;
+  type: JobType;
+  // Only one queued or running job per key, e.g. summary:<conversation id>
+  key: string;
+  payload: Record<string, string>;
+  status: JobStatus;
+  attempts: number;
+  max_attempts: number;
+  // Unix ms; retries are pushed into the future
+  run_after: number;
+  last_error: string | null;
+  result?: unknown;
+  created_at: number;
+  updated_at: number;
+}
+
+export interface JobQuery {
+  ids?: string[];
+  type?: JobType;
+  statuses?: JobStatus[];
+}
+
+const MAX_ATTEMPTS = Number(process.env.JOB_MAX_ATTEMPTS) || 5;
+// Finished jobs are dropped after this long
+const JOB_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Durable background jobs. The worker claims due jobs from here; anything left running
+ * by a crashed process is queued again on startup.
+ */
+export interface JobStore {
+  // Returns the existing job instead when one with the same key is active, or has ever run with unique set.
+  // runAfter (unix ms) delays the first attempt.
+  enqueue(type: JobType, key: string, payload: Record<string, string>, options?: { unique?: boolean; runAfter?: number }): Promise<Job>;
+  get(id: string): Promise<Job | null>;
+  list(query?: JobQuery): Promise<Job[]>;
+  // Mark up to `limit` due jobs running, oldest first
+  claimDue(limit: number): Promise<Job[]>;
+  update(id: string, changes: Partial<Omit<Job, 'id'>>): Promise<Job | null>;
+  requeueRunning(): Promise<number>;
+}
+
+class JsonJobStore implements JobStore {
+  private jobs = new JsonCollection<Job>('jobs');
+
+  enqueue(
+    type: JobType,
+    key: string,
+    payload: Record<string, string>,
+    { unique = false, runAfter }: { unique?: boolean; runAfter?: number } = {}
+  ): Promise<Job> {
+    return this.jobs.mutate(records => {
+      const existing = Object.values(records).find(job =>
+        job.key === key && (unique || job.status === 'queued' || job.status === 'running')
+      );
+      if (existing) return existing;
+
+      const now = Date.now();
+      for (const [id, job] of Object.entries(records)) {
+        if ((job.status === 'succeeded' || job.status === 'failed') && now - job.updated_at > JOB_RETENTION_MS) {
+          delete records[id];
+        }
+      }
+
+      const job: Job = {
+        id: randomUUID(),
+        type,
+        key,
+        payload,
+        status: 'queued',
+        attempts: 0,
+        max_attempts: MAX_ATTEMPTS,
+        run_after: runAfter ?? now,
+        last_error: null,
+        created_at: now,
+        updated_at: now,
+      };
+      records[job.id] = job;
+      return job;
+    });
+  }
+
+  get(id: string): Promise<Job | null> {
+    return this.jobs.get(id);
+  }
+
+  async list({ ids, type, statuses }: JobQuery = {}): Promise<Job[]> {
+    return (await this.jobs.values())
+      .filter(job =>
+        (!ids || ids.includes(job.id)) &&
+        (!type || job.type === type) &&
+        (!statuses || statuses.includes(job.status))
+      )
+      .sort((a, b) => a.created_at - b.created_at);
+  }
+
+  claimDue(limit: number): Promise<Job[]> {
+    if (limit <= 0) return Promise.resolve([]);
+
+    return this.jobs.mutate(records => {
+      const now = Date.now();
+      const due = Object.values(records)
+        .filter(job => job.status === 'queued' && job.run_after <= now)
+        .sort((a, b) => a.run_after - b.run_after)
+        .slice(0, limit);
+      return due.map(job => {
+        records[job.id] = { ...job, status: 'running', attempts: job.attempts + 1, updated_at: now };
+        return records[job.id];
+      });
+    });
+  }
+
+  update(id: string, changes: Partial<Omit<Job, 'id'>>): Promise<Job | null> {
+    return this.jobs.mutate(records => {
+      if (!records[id]) return null;
+      records[id] = { ...records[id], ...changes, updated_at: Date.now() };
+      return records[id];
+    });
+  }
+
+  requeueRunning(): Promise<number> {
+    return this.jobs.mutate(records => {
+      const running = Object.values(records).filter(job => job.status === 'running');
+      for (const job of running) {
+        records[job.id] = { ...job, status: 'queued', run_after: Date.now(), updated_at: Date.now() };
+      }
+      return running.length;
+    });
+  }
+}
+
+export const jobStore: JobStore = new JsonJobStore();
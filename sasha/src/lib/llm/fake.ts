@@ -0,0 +1,71 @@
+import { GenerateRequest, GenerateResult, LLMClient } from './types';
+
+const FAKE_EMBEDDING_DIMENSIONS = 64;
+
+// Fills a JSON Schema with placeholder values so structured callers get valid output
+function sampleFromSchema(schema: Record<string, unknown>, name = 'value'): unknown {
+  switch (schema.type) {
+    case 'object': {
+      const properties = (schema.properties ?? {}) as Record<string, Record<string, unknown>>;
+      return Object.fromEntries(Object.entries(properties).map(([key, value]) => [key, sampleFromSchema(value, key)]));
+    }
+    case 'array':
+      return [sampleFromSchema((schema.items ?? {}) as Record<string, unknown>, name)];
+    case 'number':
+    case 'integer':
+      return 0;
+    case 'boolean':
+      return false;
+    default:
+      return `Fake ${name}`;
+  }
+}
+
+/**
+ * Deterministic stand-in for tests and local development without API keys.
+ * Returns queued responses in order, then falls back to output derived from the request.
+ */
+export class FakeLLMClient implements LLMClient {
+  readonly provider = 'fake';
+  readonly model = 'fake';
+  readonly embeddingModel = 'fake';
+  readonly requests: GenerateRequest[] = [];
+
+  constructor(private readonly responses: string[] = []) {}
+
+  async generate(request: GenerateRequest): Promise<GenerateResult> {
+    this.requests.push(request);
+
+    const queued = this.responses.shift();
+    if (queued !== undefined) {
+      return { text: queued, truncated: false };
+    }
+    if (request.responseSchema) {
+      return { text: JSON.stringify(sampleFromSchema(request.responseSchema)), truncated: false };
+    }
+    return { text: `Fake response (${request.prompt.length} prompt characters)`, truncated: false };
+  }
+
+  async *stream(request: GenerateRequest): AsyncIterable<string> {
+    const { text } = await this.generate(request);
+    for (const word of text.split(/(?<=\s)/)) {
+      yield word;
+    }
+  }
+
+  // Hashed bag of words: texts sharing words get similar vectors
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => {
+      const vector = new Array<number>(FAKE_EMBEDDING_DIMENSIONS).fill(0);
+      for (const word of text.toLowerCase().match(/[a-z0-9']+/g) ?? []) {
+        let hash = 0;
+        for (const char of word) {
+          hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+        }
+        vector[hash % FAKE_EMBEDDING_DIMENSIONS] += 1;
+      }
+      const norm = Math.hypot(...vector) || 1;
+      return vector.map(value => value / norm);
+    });
+  }
+}
@@ -0,0 +1,126 @@
+import { readEventData } from './sse';
+import { GenerateRequest, GenerateResult, LLMClient, LLMRequestError } from './types';
+
+const GEMINI_API_URL = 'https://generativelanguage.googleapis.com/v1beta/models';
+
+// Gemini takes an OpenAPI-style schema with upper-case type names
+function toGeminiSchema(schema: unknown): unknown {
+  if (Array.isArray(schema)) {
+    return schema.map(toGeminiSchema);
+  }
+  if (schema && typeof schema === 'object') {
+    return Object.fromEntries(Object.entries(schema).map(([key, value]) => [
+      key,
+      key === 'type' && typeof value === 'string' ? value.toUpperCase() : toGeminiSchema(value),
+    ]));
+  }
+  return schema;
+}
+
+export class GeminiClient implements LLMClient {
+  readonly provider = 'gemini';
+
+  constructor(
+    private readonly apiKey: string,
+    readonly model: string,
+    readonly embeddingModel: string,
+  ) {}
+
+  private async request(
+    action: 'generateContent' | 'streamGenerateContent',
+    { prompt, system, history = [], responseSchema, signal, ...config }: GenerateRequest,
+  ): Promise<Response> {
+    const query = new URLSearchParams({ key: this.apiKey });
+    if (action === 'streamGenerateContent') {
+      query.set('alt', 'sse');
+    }
+
+    const response = await fetch(`${GEMINI_API_URL}/${this.model}:${action}?${query}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        ...(system && {
+          systemInstruction: { parts: [{ text: system }] },
+        }),
+        contents: [
+          ...history.map(message => ({
+            role: message.role === 'assistant' ? 'model' : 'user',
+            parts: [{ text: message.content }],
+          })),
+          {
+            role: 'user',
+            parts: [{
+              text: prompt
+            }]
+          },
+        ],
+        generationConfig: {
+          ...config,
+          ...(responseSchema && {
+            responseMimeType: 'application/json',
+            responseSchema: toGeminiSchema(responseSchema),
+          }),
+        }
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      throw new LLMRequestError(`Gemini API request failed: ${response.status}`, response.status);
+    }
+
+    return response;
+  }
+
+  async generate(request: GenerateRequest): Promise<GenerateResult> {
+    const response = await this.request('generateContent', request);
+    const data = await response.json();
+    const candidate = data.candidates?.[0];
+    return {
+      text: candidate?.content?.parts?.[0]?.text ?? '',
+      truncated: candidate?.finishReason === 'MAX_TOKENS',
+    };
+  }
+
+  async *stream(request: GenerateRequest): AsyncIterable<string> {
+    const response = await this.request('streamGenerateContent', request);
+    for await (const data of readEventData(response.body!)) {
+      const chunk = JSON.parse(data);
+      const text = chunk.candidates?.[0]?.content?.parts?.[0]?.text;
+      if (text) {
+        yield text;
+      }
+    }
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = [];
+
+    // batchEmbedContents takes at most 100 requests per call
+    for (let start = 0; start < texts.length; start += 100) {
+      const response = await fetch(`${GEMINI_API_URL}/${this.embeddingModel}:batchEmbedContents?key=${this.apiKey}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          requests: texts.slice(start, start + 100).map(text => ({
+            model: `models/${this.embeddingModel}`,
+            content: { parts: [{ text }] },
+          })),
+        }),
+      });
+
+      if (!response.ok) {
+        throw new LLMRequestError(`Gemini embedding request failed: ${response.status}`, response.status);
+      }
+
+      const data = await response.json();
+      vectors.push(...data.embeddings.map((embedding: { values: number[] }) => embedding.values));
+    }
+
+    return vectors;
+  }
+}
@@ -0,0 +1,70 @@
+import { FakeLLMClient } from './fake';
+import { GeminiClient } from './gemini';
+import { OpenAICompatibleClient } from './openai';
+import { GenerationConfig, LLMClient } from './types';
+
+export * from './types';
+export { rateLimited } from './rate-limit';
+
+export type LLMTask = 'analyze' | 'summary' | 'template';
+
+const DEFAULT_MODELS: Record<string, string> = {
+  gemini: 'gemini-1.5-flash-latest',
+  openai: 'gpt-4o-mini',
+};
+
+const DEFAULT_EMBEDDING_MODELS: Record<string, string> = {
+  gemini: 'text-embedding-004',
+  openai: 'text-embedding-3-small',
+};
+
+const TASK_DEFAULTS: Record<LLMTask, GenerationConfig> = {
+  analyze: { temperature: 0.7, topK: 40, topP: 0.95, maxOutputTokens: 1024 },
+  summary: { temperature: 0.7, topK: 40, topP: 0.95, maxOutputTokens: 512 },
+  template: { temperature: 0.7, topK: 40, topP: 0.95, maxOutputTokens: 2048 },
+};
+
+function envNumber(name: string): number | undefined {
+  const value = process.env[name];
+  return value ? Number(value) : undefined;
+}
+
+/**
+ * Generation settings for a task, overridable per task with
+ * LLM_<TASK>_TEMPERATURE / LLM_<TASK>_MAX_OUTPUT_TOKENS.
+ */
+export function getGenerationConfig(task: LLMTask): GenerationConfig {
+  const prefix = `LLM_${task.toUpperCase()}`;
+  const defaults = TASK_DEFAULTS[task];
+  return {
+    ...defaults,
+    temperature: envNumber(`${prefix}_TEMPERATURE`) ?? defaults.temperature,
+    maxOutputTokens: envNumber(`${prefix}_MAX_OUTPUT_TOKENS`) ?? defaults.maxOutputTokens,
+  };
+}
+
+/**
+ * Client for the provider named by LLM_PROVIDER (gemini, openai or fake; defaults to gemini).
+ * Returns null when that provider's API key is missing.
+ */
+export function getLLMClient(): LLMClient | null {
+  const provider = process.env.LLM_PROVIDER || 'gemini';
+  const model = process.env.LLM_MODEL || DEFAULT_MODELS[provider];
+  const embeddingModel = process.env.LLM_EMBEDDING_MODEL || DEFAULT_EMBEDDING_MODELS[provider];
+
+  switch (provider) {
+    case 'gemini': {
+      const apiKey = process.env.GEMINI_API_KEY;
+      return apiKey ? new GeminiClient(apiKey, model, embeddingModel) : null;
+    }
+    case 'openai': {
+      const apiKey = process.env.OPENAI_API_KEY;
+      const baseUrl = process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1';
+      return apiKey ? new OpenAICompatibleClient(apiKey, model, embeddingModel, baseUrl) : null;
+    }
+    case 'fake':
+      return new FakeLLMClient();
+    default:
+      throw new Error(`Unknown LLM provider: ${provider}`);
+  }
+}
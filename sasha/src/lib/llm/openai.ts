@@ -0,0 +1,103 @@
+import { readEventData } from './sse';
+import { GenerateRequest, GenerateResult, LLMClient, LLMRequestError } from './types';
+
+/**
+ * Any provider exposing the OpenAI chat completions API (OpenAI, Azure, vLLM, Ollama, ...).
+ */
+export class OpenAICompatibleClient implements LLMClient {
+  readonly provider = 'openai';
+
+  constructor(
+    private readonly apiKey: string,
+    readonly model: string,
+    readonly embeddingModel: string,
+    private readonly baseUrl: string,
+  ) {}
+
+  private async request(
+    { prompt, system, history = [], responseSchema, temperature, topP, maxOutputTokens, signal }: GenerateRequest,
+    stream: boolean,
+  ): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${this.apiKey}`,
+      },
+      body: JSON.stringify({
+        model: this.model,
+        messages: [
+          ...(system ? [{ role: 'system', content: system }] : []),
+          ...history.map(({ role, content }) => ({ role, content })),
+          { role: 'user', content: prompt },
+        ],
+        temperature,
+        top_p: topP,
+        max_tokens: maxOutputTokens,
+        stream,
+        ...(responseSchema && {
+          response_format: {
+            type: 'json_schema',
+            json_schema: { name: 'response', schema: responseSchema },
+          },
+        }),
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      throw new LLMRequestError(`OpenAI-compatible API request failed: ${response.status}`, response.status);
+    }
+
+    return response;
+  }
+
+  async generate(request: GenerateRequest): Promise<GenerateResult> {
+    const response = await this.request(request, false);
+    const data = await response.json();
+    const choice = data.choices?.[0];
+    return {
+      text: choice?.message?.content ?? '',
+      truncated: choice?.finish_reason === 'length',
+    };
+  }
+
+  async *stream(request: GenerateRequest): AsyncIterable<string> {
+    const response = await this.request(request, true);
+    for await (const data of readEventData(response.body!)) {
+      if (data === '[DONE]') break;
+
+      const text = JSON.parse(data).choices?.[0]?.delta?.content;
+      if (text) {
+        yield text;
+      }
+    }
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = [];
+
+    for (let start = 0; start < texts.length; start += 100) {
+      const response = await fetch(`${this.baseUrl}/embeddings`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${this.apiKey}`,
+        },
+        body: JSON.stringify({
+          model: this.embeddingModel,
+          input: texts.slice(start, start + 100),
+        }),
+      });
+
+      if (!response.ok) {
+        throw new LLMRequestError(`OpenAI-compatible embedding request failed: ${response.status}`, response.status);
+      }
+
+      const data = await response.json();
+      vectors.push(...data.data.map((item: { embedding: number[] }) => item.embedding));
+    }
+
+    return vectors;
+  }
+}
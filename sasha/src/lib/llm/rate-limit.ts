@@ -0,0 +1,94 @@
+import { LLMClient, LLMRequestError } from './types';
+
+const REQUESTS_PER_MINUTE = Number(process.env.LLM_REQUESTS_PER_MINUTE) || 15;
+const BURST = Number(process.env.LLM_RATE_LIMIT_BURST) || 3;
+// How long to hold all calls to a provider after it answers 429
+const RATE_LIMITED_PAUSE_MS = 30000;
+
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Classic token bucket: holds up to `capacity` tokens, refilled continuously at `perMinute`.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+  private pausedUntil = 0;
+
+  constructor(private readonly capacity: number, private readonly perMinute: number) {
+    this.tokens = capacity;
+  }
+
+  private refill() {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.updatedAt) * this.perMinute / 60000);
+    this.updatedAt = now;
+  }
+
+  // Milliseconds until a token is free; 0 means one was taken
+  tryTake(): number {
+    const now = Date.now();
+    if (now < this.pausedUntil) return this.pausedUntil - now;
+
+    this.refill();
+    if (this.tokens >= 1) {
+      this.tokens -= 1;
+      return 0;
+    }
+    return Math.ceil((1 - this.tokens) * 60000 / this.perMinute);
+  }
+
+  async take(): Promise<void> {
+    for (let wait = this.tryTake(); wait > 0; wait = this.tryTake()) {
+      await sleep(wait);
+    }
+  }
+
+  // Stop handing out tokens for a while, e.g. after the provider says we are over its limit
+  pause(ms: number) {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+    this.tokens = 0;
+  }
+}
+
+// One bucket per provider, shared by everything in this server process
+const buckets = new Map<string, TokenBucket>();
+
+export function providerBucket(provider: string): TokenBucket {
+  let bucket = buckets.get(provider);
+  if (!bucket) {
+    bucket = new TokenBucket(BURST, REQUESTS_PER_MINUTE);
+    buckets.set(provider, bucket);
+  }
+  return bucket;
+}
+
+/**
+ * Wrap a client so every generate and embed call first takes a token from its provider's bucket,
+ * and a 429 pauses the bucket for everyone. Streaming passes straight through.
+ */
+export function rateLimited(client: LLMClient): LLMClient {
+  const bucket = providerBucket(client.provider);
+  async function limited<T>(call: () => Promise<T>): Promise<T> {
+    await bucket.take();
+    try {
+      return await call();
+    } catch (error) {
+      if (error instanceof LLMRequestError && error.status === 429) {
+        bucket.pause(RATE_LIMITED_PAUSE_MS);
+      }
+      throw error;
+    }
+  }
+
+  return {
+    provider: client.provider,
+    model: client.model,
+    embeddingModel: client.embeddingModel,
+    generate: request => limited(() => client.generate(request)),
+    stream: request => client.stream(request),
+    embed: texts => limited(() => client.embed(texts)),
+  };
+}
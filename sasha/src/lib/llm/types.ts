@@ -0,0 +1,47 @@
+export interface GenerationConfig {
+  temperature?: number;
+  topK?: number;
+  topP?: number;
+  maxOutputTokens?: number;
+}
+
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface GenerateRequest extends GenerationConfig {
+  // The latest user turn
+  prompt: string;
+  system?: string;
+  // Earlier turns of the same chat, oldest first
+  history?: ChatMessage[];
+  // JSON Schema for the response; providers that support it return matching JSON
+  responseSchema?: Record<string, unknown>;
+  signal?: AbortSignal;
+}
+
+export interface GenerateResult {
+  text: string;
+  // Output stopped at maxOutputTokens
+  truncated: boolean;
+}
+
+export interface LLMClient {
+  readonly provider: string;
+  readonly model: string;
+  readonly embeddingModel: string;
+  generate(request: GenerateRequest): Promise<GenerateResult>;
+  // Text deltas as the provider produces them
+  stream(request: GenerateRequest): AsyncIterable<string>;
+  // One vector per input text, in order
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+// Carries the upstream HTTP status so routes can pass rate limits (429) through
+export class LLMRequestError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'LLMRequestError';
+  }
+}
@@ -0,0 +1,74 @@
+import path from 'path';
+import { DATA_DIR } from '../db';
+import { MailgunMailer } from './mailgun';
+import { FileMailer, MemoryMailer } from './sink';
+import { SmtpMailer } from './smtp';
+import { EmailMessage, Mailer, MailSettings } from './types';
+
+export * from './types';
+export { invalidAddresses, parseAddresses } from './mime';
+export { FileMailer, MemoryMailer } from './sink';
+export { verifyMailgunWebhook } from './mailgun';
+export type { MailgunWebhookEvent } from './mailgun';
+
+// Shared so what was "sent" can be inspected for the life of the server process
+const memoryMailer = new MemoryMailer();
+
+/**
+ * The pilot's sender identity, from MAIL_DOMAIN, MAIL_FROM_NAME and MAIL_FROM_ADDRESS.
+ */
+export function mailSettings(): MailSettings {
+  const domain = process.env.MAIL_DOMAIN || 'ai.complete.city';
+  return {
+    domain,
+    fromName: process.env.MAIL_FROM_NAME || 'Sasha',
+    fromAddress: process.env.MAIL_FROM_ADDRESS || `arihant@${domain}`,
+  };
+}
+
+export function defaultSender(): string {
+  const { fromName, fromAddress } = mailSettings();
+  return `${fromName} <${fromAddress}>`;
+}
+
+/**
+ * Transport named by MAIL_TRANSPORT (mailgun, smtp, file or memory; defaults to mailgun).
+ * Returns null when that transport's credentials or host are missing.
+ */
+export function getMailer(): Mailer | null {
+  const transport = process.env.MAIL_TRANSPORT || 'mailgun';
+
+  switch (transport) {
+    case 'mailgun': {
+      const apiKey = process.env.MAILGUN_API_KEY;
+      const domain = process.env.MAILGUN_DOMAIN || mailSettings().domain;
+      return apiKey ? new MailgunMailer(apiKey, domain, process.env.MAILGUN_BASE_URL || undefined) : null;
+    }
+    case 'smtp': {
+      const host = process.env.SMTP_HOST;
+      const secure = process.env.SMTP_SECURE === 'true';
+      return host ? new SmtpMailer({
+        host,
+        port: Number(process.env.SMTP_PORT) || (secure ? 465 : 587),
+        secure,
+        user: process.env.SMTP_USER,
+        password: process.env.SMTP_PASSWORD,
+      }) : null;
+    }
+    case 'file':
+      return new FileMailer(process.env.MAIL_FILE_DIR || path.join(DATA_DIR, 'mail'));
+    case 'memory':
+      return memoryMailer;
+    default:
+      throw new Error(`Unknown mail transport: ${transport}`);
+  }
+}
+
+// Send with the configured transport, from the pilot's sender unless the message says otherwise
+export async function sendEmail(message: EmailMessage): Promise<void> {
+  const mailer = getMailer();
+  if (!mailer) {
+    throw new Error('Mail transport not configured');
+  }
+  await mailer.send({ ...message, from: message.from || defaultSender() });
+}
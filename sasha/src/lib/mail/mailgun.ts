@@ -0,0 +1,81 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { Mailer, OutgoingEmail } from './types';
+
+// Webhook deliveries older than this are rejected as possible replays
+const WEBHOOK_TOLERANCE_SECS = 15 * 60;
+
+export interface MailgunWebhookSignature {
+  timestamp: string;
+  token: string;
+  signature: string;
+}
+
+// The parts of a Mailgun event webhook used for delivery tracking
+export interface MailgunWebhookEvent {
+  signature: MailgunWebhookSignature;
+  'event-data': {
+    event: string;
+    // Only set on failed events; temporary failures are retried by Mailgun
+    severity?: 'permanent' | 'temporary';
+    reason?: string;
+    message?: { headers?: { 'message-id'?: string } };
+    'delivery-status'?: { code?: number; message?: string; description?: string };
+  };
+}
+
+export class MailgunMailer implements Mailer {
+  readonly transport = 'mailgun';
+
+  constructor(
+    private readonly apiKey: string,
+    private readonly domain: string,
+    // EU domains use https://api.eu.mailgun.net/v3
+    private readonly baseUrl = 'https://api.mailgun.net/v3',
+  ) {}
+
+  async send({ from, to, cc, bcc, subject, text, html, attachments = [], messageId }: OutgoingEmail): Promise<void> {
+    const formData = new FormData();
+    formData.append('from', from);
+    formData.append('to', to);
+    if (cc) {
+      formData.append('cc', cc);
+    }
+    if (bcc) {
+      formData.append('bcc', bcc);
+    }
+    formData.append('subject', subject);
+    formData.append('text', text);
+    if (html) {
+      formData.append('html', html);
+    }
+    if (messageId) {
+      formData.append('h:Message-Id', `<${messageId}>`);
+    }
+    for (const { filename, contentType, content } of attachments) {
+      formData.append('attachment', new Blob([content], { type: `${contentType}; charset=utf-8` }), filename);
+    }
+
+    const response = await fetch(`${this.baseUrl}/${this.domain}/messages`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Basic ${Buffer.from(`api:${this.apiKey}`).toString('base64')}`,
+      },
+      body: formData,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Mailgun API request failed: ${response.status}`);
+    }
+  }
+}
+
+// The signature is the HMAC-SHA256 of timestamp + token with the webhook signing key
+export function verifyMailgunWebhook({ timestamp, token, signature }: MailgunWebhookSignature, signingKey: string): boolean {
+  if (!timestamp || !token || !signature || Math.abs(Date.now() / 1000 - Number(timestamp)) > WEBHOOK_TOLERANCE_SECS) {
+    return false;
+  }
+
+  const expected = createHmac('sha256', signingKey).update(`${timestamp}${token}`).digest();
+  const actual = Buffer.from(signature, 'hex');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,83 @@
+import { randomUUID } from 'crypto';
+import { EmailAttachment, OutgoingEmail } from './types';
+
+const ADDRESS_PATTERN = /^[^\s@,<>]+@[^\s@,<>]+\.[^\s@,<>]+$/;
+
+function bareAddress(entry: string): string {
+  return (entry.match(/<([^>]+)>/)?.[1] ?? entry).trim();
+}
+
+// Bare addresses from a comma-separated list that may use the `Name <address>` form
+export function parseAddresses(list: string | undefined): string[] {
+  return (list ?? '').split(',').map(bareAddress).filter(Boolean);
+}
+
+// Entries of a comma-separated list that aren't email addresses. A line break anywhere in an
+// entry makes it invalid, since the list is written into the message headers as it is.
+export function invalidAddresses(list: string | undefined): string[] {
+  return (list ?? '').split(',')
+    .filter(entry => bareAddress(entry))
+    .filter(entry => /[\r\n]/.test(entry) || !ADDRESS_PATTERN.test(bareAddress(entry)))
+    .map(entry => entry.trim());
+}
+
+// Address lists go into the headers unencoded, so a line break would start a header of the sender's choosing
+function addressHeader(name: string, list: string): string {
+  if (/[\r\n]/.test(list)) {
+    throw new Error(`${name} header contains a line break`);
+  }
+  return `${name}: ${list}`;
+}
+
+// RFC 2047 encoding for header values that aren't plain ASCII
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`;
+}
+
+function base64Part(contentType: string, content: string, extraHeaders: string[] = []): string {
+  const body = Buffer.from(content.replace(/\r?\n/g, '\r\n')).toString('base64').replace(/.{76}/g, '$&\r\n');
+  return [`Content-Type: ${contentType}`, 'Content-Transfer-Encoding: base64', ...extraHeaders, '', body].join('\r\n');
+}
+
+function attachmentPart({ filename, contentType, content }: EmailAttachment): string {
+  const name = filename.replace(/["\r\n]/g, '');
+  return base64Part(`${contentType}; charset=utf-8; name="${name}"`, content, [`Content-Disposition: attachment; filename="${name}"`]);
+}
+
+// Parts under one boundary, each starting with its own headers
+function multipart(subtype: string, parts: string[]): string {
+  const boundary = `${subtype.slice(0, 3)}-${randomUUID()}`;
+  return [
+    `Content-Type: multipart/${subtype}; boundary="${boundary}"`,
+    '',
+    ...parts.flatMap(part => [`--${boundary}`, part]),
+    `--${boundary}--`,
+  ].join('\r\n');
+}
+
+/**
+ * The message as an RFC 5322 document with CRLF line endings: multipart/alternative when there
+ * is an HTML version, wrapped in multipart/mixed when there are attachments. Bodies are base64
+ * so they survive servers without 8BITMIME and need no dot-stuffing.
+ */
+export function buildMimeMessage({ from, to, cc, subject, text, html, attachments = [], messageId }: OutgoingEmail): string {
+  const domain = parseAddresses(from)[0]?.split('@')[1] ?? 'localhost';
+  const headers = [
+    addressHeader('From', from),
+    addressHeader('To', to),
+    ...(cc ? [addressHeader('Cc', cc)] : []),
+    `Subject: ${encodeHeader(subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${messageId ?? `${randomUUID()}@${domain}`}>`,
+    'MIME-Version: 1.0',
+  ];
+
+  const body = html
+    ? multipart('alternative', [base64Part('text/plain; charset=utf-8', text), base64Part('text/html; charset=utf-8', html)])
+    : base64Part('text/plain; charset=utf-8', text);
+
+  return [
+    ...headers,
+    attachments.length > 0 ? multipart('mixed', [body, ...attachments.map(attachmentPart)]) : body,
+  ].join('\r\n');
+}
@@ -0,0 +1,28 @@
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { buildMimeMessage } from './mime';
+import { Mailer, OutgoingEmail } from './types';
+
+// Writes each message to <dir>/<timestamp>-<id>.eml instead of sending it; open them in any mail client
+export class FileMailer implements Mailer {
+  readonly transport = 'file';
+
+  constructor(private readonly dir: string) {}
+
+  async send(message: OutgoingEmail): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+    const file = path.join(this.dir, `${new Date().toISOString().replace(/[:.]/g, '-')}-${randomUUID()}.eml`);
+    await fs.writeFile(file, buildMimeMessage(message));
+  }
+}
+
+// Keeps sent messages in memory, for tests and local development
+export class MemoryMailer implements Mailer {
+  readonly transport = 'memory';
+  readonly sent: OutgoingEmail[] = [];
+
+  async send(message: OutgoingEmail): Promise<void> {
+    this.sent.push(message);
+  }
+}
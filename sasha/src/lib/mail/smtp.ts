@@ -0,0 +1,166 @@
+import net from 'net';
+import tls from 'tls';
+import { buildMimeMessage, parseAddresses } from './mime';
+import { Mailer, OutgoingEmail } from './types';
+
+const SMTP_TIMEOUT_MS = 30000;
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  // Implicit TLS (usually port 465); otherwise STARTTLS is used when the server offers it,
+  // and required when there are credentials to send
+  secure: boolean;
+  user?: string;
+  password?: string;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * One SMTP conversation: each command waits for the server's (possibly multi-line) reply.
+ */
+class SmtpSession {
+  private socket!: net.Socket;
+  private buffer = '';
+  private lines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  private readonly onData = (chunk: Buffer) => {
+    this.buffer += chunk.toString('utf8');
+    let newline;
+    while ((newline = this.buffer.indexOf('\r\n')) >= 0) {
+      const line = this.buffer.slice(0, newline);
+      this.buffer = this.buffer.slice(newline + 2);
+      this.lines.push(line.slice(4));
+      // "250-..." continues the reply, "250 ..." ends it
+      if (line[3] !== '-') {
+        this.deliver({ code: Number(line.slice(0, 3)), lines: this.lines });
+        this.lines = [];
+      }
+    }
+  };
+
+  private readonly onError = (error: Error) => {
+    this.failure = error;
+    this.waiting?.reject(error);
+    this.waiting = null;
+  };
+
+  private readonly onClose = () => this.onError(new Error('SMTP connection closed'));
+
+  private deliver(reply: SmtpReply) {
+    if (this.waiting) {
+      this.waiting.resolve(reply);
+      this.waiting = null;
+    } else {
+      this.replies.push(reply);
+    }
+  }
+
+  attach(socket: net.Socket) {
+    this.socket?.off('data', this.onData).off('error', this.onError).off('close', this.onClose);
+    this.socket = socket;
+    socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error('SMTP server timed out')));
+    socket.on('data', this.onData).on('error', this.onError).on('close', this.onClose);
+  }
+
+  read(): Promise<SmtpReply> {
+    const queued = this.replies.shift();
+    if (queued) return Promise.resolve(queued);
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  async expect(codes: number[]): Promise<SmtpReply> {
+    const reply = await this.read();
+    if (!codes.includes(reply.code)) {
+      throw new Error(`SMTP server replied ${reply.code}: ${reply.lines.join(' ')}`);
+    }
+    return reply;
+  }
+
+  command(line: string, codes: number[]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(codes);
+  }
+
+  // Stop listening before upgrading, so the TLS socket gets the bytes instead
+  detach(): net.Socket {
+    this.socket.off('data', this.onData).off('error', this.onError).off('close', this.onClose);
+    return this.socket;
+  }
+
+  close() {
+    this.detach().end();
+  }
+}
+
+function connect(host: string, port: number, secure: boolean): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = secure
+      ? tls.connect({ host, port, servername: host }, () => resolve(socket))
+      : net.connect({ host, port }, () => resolve(socket));
+    socket.once('error', reject);
+  });
+}
+
+function upgrade(socket: net.Socket, host: string): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const secured = tls.connect({ socket, servername: host }, () => resolve(secured));
+    secured.once('error', reject);
+  });
+}
+
+// Plain SMTP submission, e.g. to a relay, Postmark/SES SMTP endpoints or a local Mailpit
+export class SmtpMailer implements Mailer {
+  readonly transport = 'smtp';
+
+  constructor(private readonly options: SmtpOptions) {}
+
+  async send(message: OutgoingEmail): Promise<void> {
+    const { host, port, secure, user, password } = this.options;
+    const recipients = [message.to, message.cc, message.bcc].flatMap(parseAddresses);
+    const session = new SmtpSession();
+    session.attach(await connect(host, port, secure));
+
+    try {
+      await session.expect([220]);
+      const ehlo = await session.command('EHLO localhost', [250]);
+
+      let encrypted = secure;
+      if (!secure && ehlo.lines.some(line => line.toUpperCase() === 'STARTTLS')) {
+        await session.command('STARTTLS', [220]);
+        session.attach(await upgrade(session.detach(), host));
+        await session.command('EHLO localhost', [250]);
+        encrypted = true;
+      }
+
+      if (user && password) {
+        // AUTH PLAIN is the password in base64, so it never goes over an unencrypted connection
+        if (!encrypted) {
+          throw new Error('SMTP server does not support TLS; refusing to send credentials in plain text');
+        }
+        const credentials = Buffer.from(`\0${user}\0${password}`).toString('base64');
+        await session.command(`AUTH PLAIN ${credentials}`, [235]);
+      }
+
+      await session.command(`MAIL FROM:<${parseAddresses(message.from)[0]}>`, [250]);
+      for (const recipient of recipients) {
+        await session.command(`RCPT TO:<${recipient}>`, [250, 251]);
+      }
+      await session.command('DATA', [354]);
+      await session.command(`${buildMimeMessage(message)}\r\n.`, [250]);
+      await session.command('QUIT', [221]).catch(() => undefined);
+    } finally {
+      session.close();
+    }
+  }
+}
@@ -0,0 +1,38 @@
+export interface EmailMessage {
+  // One or more comma-separated addresses
+  to: string;
+  // Comma-separated too; BCC addresses are never written into the message headers
+  cc?: string;
+  bcc?: string;
+  subject: string;
+  text: string;
+  // Sent alongside the text as multipart/alternative
+  html?: string;
+  // Defaults to the pilot's sender from mailSettings()
+  from?: string;
+  attachments?: EmailAttachment[];
+  // Message-ID without the angle brackets; generated if not set
+  messageId?: string;
+}
+
+export interface EmailAttachment {
+  filename: string;
+  // Without a charset; text attachments are always sent as UTF-8
+  contentType: string;
+  content: string;
+}
+
+// A message as handed to a transport, with the sender filled in
+export type OutgoingEmail = EmailMessage & { from: string };
+
+export interface Mailer {
+  readonly transport: string;
+  send(message: OutgoingEmail): Promise<void>;
+}
+
+// Per-pilot sender identity
+export interface MailSettings {
+  domain: string;
+  fromName: string;
+  fromAddress: string;
+}
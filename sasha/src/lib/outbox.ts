@@ -0,0 +1,252 @@
+import { randomUUID } from 'crypto';
+import { rememberRecipients } from './contacts';
+import { JsonCollection } from './db';
+import { publish } from './events';
+import { jobStore } from './jobs';
+import { EmailMessage, mailSettings, parseAddresses, sendEmail } from './mail';
+
+export type OutboxStatus = 'queued' | 'sending' | 'sent' | 'failed' | 'cancelled';
+// Reported by the mail provider's webhooks after it accepted the message
+export type DeliveryStatus = 'delivered' | 'bounced' | 'complained';
+
+/**
+ * An email waiting to be sent, or already sent. The job worker does the sending, so failed
+ * attempts are retried with backoff; a failure is only final once the job gives up.
+ */
+export interface OutboxEmail {
+  id: string;
+  conversation_id: string | null;
+  // Carries a messageId, which delivery webhooks use to find the email again
+  message: EmailMessage & { messageId: string };
+  status: OutboxStatus;
+  // Unix ms; in the future for scheduled sends
+  send_at: number;
+  attempts: number;
+  last_error: string | null;
+  sent_at: number | null;
+  delivery: DeliveryStatus | null;
+  delivery_detail: string | null;
+  created_by: string;
+  created_at: number;
+  updated_at: number;
+}
+
+export interface OutboxQuery {
+  conversationId?: string;
+  statuses?: OutboxStatus[];
+  limit?: number;
+}
+
+export interface OutboxStore {
+  create(input: Pick<OutboxEmail, 'id' | 'conversation_id' | 'message' | 'send_at' | 'created_by'>): Promise<OutboxEmail>;
+  get(id: string): Promise<OutboxEmail | null>;
+  // Newest first
+  list(query?: OutboxQuery): Promise<OutboxEmail[]>;
+  findByMessageId(messageId: string): Promise<OutboxEmail | null>;
+  update(id: string, changes: Partial<Omit<OutboxEmail, 'id'>>): Promise<OutboxEmail | null>;
+  // Compare-and-set: applies the changes only while the email is in one of the given statuses, else null
+  transition(
+    id: string,
+    from: OutboxStatus[],
+    changes: (email: OutboxEmail) => Partial<Omit<OutboxEmail, 'id'>>
+  ): Promise<OutboxEmail | null>;
+}
+
+// Per-conversation send history kept by the contact book before the outbox existed, newest first
+interface LegacySentEmail {
+  recipients: string[];
+  sent_by: string;
+  sent_at: number;
+}
+
+class JsonOutboxStore implements OutboxStore {
+  private emails = new JsonCollection<OutboxEmail>('outbox');
+  private legacySent = new JsonCollection<LegacySentEmail[]>('conversation-recipients');
+  private legacyImport: Promise<void> | null = null;
+
+  // Copy the old send history in as sent emails once, then clear it; IDs are stable so a retry can't duplicate
+  private importLegacyHistory(): Promise<void> {
+    this.legacyImport ??= (async () => {
+      const legacy = await this.legacySent.all();
+      if (Object.keys(legacy).length === 0) return;
+
+      await this.emails.mutate(records => {
+        for (const [conversationId, sent] of Object.entries(legacy)) {
+          sent.forEach((record, index) => {
+            const id = `legacy-${conversationId}-${index}`;
+            const sentAt = record.sent_at * 1000;
+            records[id] ??= {
+              id,
+              conversation_id: conversationId,
+              // Only the recipients were recorded
+              message: { to: record.recipients.join(', '), subject: '(subject not recorded)', text: '', messageId: id },
+              status: 'sent',
+              send_at: sentAt,
+              attempts: 1,
+              last_error: null,
+              sent_at: sentAt,
+              delivery: null,
+              delivery_detail: null,
+              created_by: record.sent_by,
+              created_at: sentAt,
+              updated_at: sentAt,
+            };
+          });
+        }
+      });
+      await this.legacySent.mutate(records => {
+        Object.keys(records).forEach(id => delete records[id]);
+      });
+    })().catch(error => {
+      this.legacyImport = null;
+      throw error;
+    });
+    return this.legacyImport;
+  }
+
+  async create(input: Pick<OutboxEmail, 'id' | 'conversation_id' | 'message' | 'send_at' | 'created_by'>): Promise<OutboxEmail> {
+    const now = Date.now();
+    const email = await this.emails.put(input.id, {
+      ...input,
+      status: 'queued',
+      attempts: 0,
+      last_error: null,
+      sent_at: null,
+      delivery: null,
+      delivery_detail: null,
+      created_at: now,
+      updated_at: now,
+    });
+    publish({ type: 'email.updated', email });
+    return email;
+  }
+
+  get(id: string): Promise<OutboxEmail | null> {
+    return this.emails.get(id);
+  }
+
+  async list({ conversationId, statuses, limit }: OutboxQuery = {}): Promise<OutboxEmail[]> {
+    await this.importLegacyHistory();
+    return (await this.emails.values())
+      .filter(email =>
+        (!conversationId || email.conversation_id === conversationId) &&
+        (!statuses || statuses.includes(email.status))
+      )
+      .sort((a, b) => b.created_at - a.created_at)
+      .slice(0, limit);
+  }
+
+  async findByMessageId(messageId: string): Promise<OutboxEmail | null> {
+    const id = messageId.replace(/^<|>$/g, '');
+    return (await this.emails.values()).find(email => email.message.messageId === id) ?? null;
+  }
+
+  async update(id: string, changes: Partial<Omit<OutboxEmail, 'id'>>): Promise<OutboxEmail | null> {
+    const email = await this.emails.mutate(records => {
+      if (!records[id]) return null;
+      records[id] = { ...records[id], ...changes, updated_at: Date.now() };
+      return records[id];
+    });
+    if (email) {
+      publish({ type: 'email.updated', email });
+    }
+    return email;
+  }
+
+  async transition(
+    id: string,
+    from: OutboxStatus[],
+    changes: (email: OutboxEmail) => Partial<Omit<OutboxEmail, 'id'>>
+  ): Promise<OutboxEmail | null> {
+    const email = await this.emails.mutate(records => {
+      if (!records[id] || !from.includes(records[id].status)) return null;
+      records[id] = { ...records[id], ...changes(records[id]), updated_at: Date.now() };
+      return records[id];
+    });
+    if (email) {
+      publish({ type: 'email.updated', email });
+    }
+    return email;
+  }
+}
+
+export const outboxStore: OutboxStore = new JsonOutboxStore();
+
+function enqueueDelivery(email: OutboxEmail) {
+  return jobStore.enqueue('outbox_email', `outbox_email:${email.id}`, { outbox_id: email.id }, { runAfter: email.send_at });
+}
+
+// Put an email in the outbox, to go out at sendAt (unix ms) or as soon as the worker gets to it
+export async function queueEmail(
+  message: EmailMessage,
+  { conversationId = null, sendAt = Date.now(), actor }: { conversationId?: string | null; sendAt?: number; actor: string }
+): Promise<OutboxEmail> {
+  const id = randomUUID();
+  const email = await outboxStore.create({
+    id,
+    conversation_id: conversationId,
+    message: { ...message, messageId: `${id}@${mailSettings().domain}` },
+    send_at: sendAt,
+    created_by: actor,
+  });
+  await enqueueDelivery(email);
+  return email;
+}
+
+/**
+ * Send a queued email; run by the job worker. Throws on failure so the worker retries,
+ * leaving the email queued until markOutboxFailed says it won't be.
+ */
+export async function deliverOutboxEmail(id: string): Promise<{ status: OutboxStatus | 'missing' }> {
+  // "sending" means a previous process died mid-send; sending again is better than never.
+  // Claimed in one step, so a cancel can't slip in between the check and the send.
+  const email = await outboxStore.transition(id, ['queued', 'sending'], current => ({
+    status: 'sending',
+    attempts: current.attempts + 1,
+  }));
+  if (!email) {
+    return { status: (await outboxStore.get(id))?.status ?? 'missing' };
+  }
+
+  try {
+    await sendEmail(email.message);
+  } catch (error) {
+    await outboxStore.update(id, { status: 'queued', last_error: error instanceof Error ? error.message : String(error) });
+    throw error;
+  }
+  await outboxStore.update(id, { status: 'sent', sent_at: Date.now(), last_error: null });
+
+  if (email.conversation_id) {
+    const { to, cc, bcc } = email.message;
+    await rememberRecipients([to, cc, bcc].flatMap(parseAddresses));
+  }
+  return { status: 'sent' };
+}
+
+// The job worker has given up on the email
+export async function markOutboxFailed(id: string, error: string): Promise<void> {
+  // Unless it was cancelled after a failed attempt
+  await outboxStore.transition(id, ['queued', 'sending'], () => ({ status: 'failed', last_error: error }));
+}
+
+// Send a failed email again, now; null if it hasn't failed
+export async function retryOutboxEmail(id: string): Promise<OutboxEmail | null> {
+  const retried = await outboxStore.transition(id, ['failed'], () => ({ status: 'queued', send_at: Date.now() }));
+  if (retried) {
+    await enqueueDelivery(retried);
+  }
+  return retried;
+}
+
+// Stop a queued email from going out; null if it is already sending or done
+export async function cancelOutboxEmail(id: string): Promise<OutboxEmail | null> {
+  return outboxStore.transition(id, ['queued'], () => ({ status: 'cancelled' }));
+}
+
+// Record what the provider reported for a sent email; false if no email has that Message-ID
+export async function recordDelivery(messageId: string, delivery: DeliveryStatus, detail: string | null): Promise<boolean> {
+  const email = await outboxStore.findByMessageId(messageId);
+  if (!email) return false;
+  await outboxStore.update(email.id, { delivery, delivery_detail: detail });
+  return true;
+}
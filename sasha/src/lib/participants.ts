@@ -0,0 +1,52 @@
+import { ConversationDetails, TranscriptTurn } from './types';
+
+const EMAIL_IN_TEXT = /[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/i;
+// Dynamic variables an agent may be started with that hold the caller's email
+const EMAIL_VARIABLES = ['participant_email', 'user_email', 'email'];
+
+// Extract participant name from transcript
+export function extractParticipantName(transcript: TranscriptTurn[]): string {
+  if (!transcript || transcript.length === 0) return '';
+  
+  // Look at first few user messages for introductions
+  const userMessages = transcript.filter(turn => turn.role === 'user').slice(0, 3);
+  
+  for (const turn of userMessages) {
+    // Common introduction patterns
+    const patterns = [
+      /(?:hi|hello|hey)(?:,)?\s+(?:i'm|i am|this is)\s+([a-z]+(?:\s+[a-z]+)?)/i,
+      /(?:my name is|i'm|i am)\s+([a-z]+(?:\s+[a-z]+)?)/i,
+      /(?:this is|speaking with|talking to)\s+([a-z]+(?:\s+[a-z]+)?)/i,
+      /([a-z]+)\s+(?:here|speaking)/i
+    ];
+    
+    for (const pattern of patterns) {
+      const match = turn.message.match(pattern);
+      if (match && match[1]) {
+        // Capitalize first letter of each word
+        return match[1].split(' ').map(word => 
+          word.charAt(0).toUpperCase() + word.slice(1).toLowerCase()
+        ).join(' ');
+      }
+    }
+  }
+  
+  return '';
+}
+
+// The caller's email: from the call's dynamic variables, or written out by the caller in the transcript
+export function extractParticipantEmail(details: ConversationDetails): string | null {
+  const variables = details.conversation_initiation_client_data?.dynamic_variables ?? {};
+  for (const name of EMAIL_VARIABLES) {
+    const value = variables[name];
+    if (typeof value === 'string' && EMAIL_IN_TEXT.test(value)) {
+      return value.match(EMAIL_IN_TEXT)![0];
+    }
+  }
+
+  for (const turn of details.transcript.filter(turn => turn.role === 'user')) {
+    const match = turn.message.match(EMAIL_IN_TEXT);
+    if (match) return match[0];
+  }
+  return null;
+}
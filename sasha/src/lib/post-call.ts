@@ -0,0 +1,20 @@
+import { conversationStore } from './conversation-store';
+import { scheduleFollowUpEmails } from './follow-up-rules';
+import { startJobWorker } from './job-worker';
+import { jobStore } from './jobs';
+import { queueEmbeddingIndex } from './search';
+import { ConversationDetails } from './types';
+
+/**
+ * Store a finished call and queue what should happen next: its summary, search embeddings and
+ * the follow-up emails of matching rules. Safe to repeat for the same call; each email goes out once.
+ */
+export async function ingestCompletedCall(details: ConversationDetails): Promise<void> {
+  const id = details.conversation_id;
+  await conversationStore.saveDetails([details]);
+
+  await startJobWorker();
+  await jobStore.enqueue('summary', `summary:${id}`, { conversation_id: id });
+  await queueEmbeddingIndex();
+  await scheduleFollowUpEmails(details);
+}
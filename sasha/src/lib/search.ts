@@ -0,0 +1,283 @@
+import { createHash } from 'crypto';
+import { conversationStore } from './conversation-store';
+import { JsonCollection } from './db';
+import { jobStore } from './jobs';
+import { getLLMClient, LLMClient } from './llm';
+import { formatSummaryText } from './summary';
+import { summaryStore } from './summary-store';
+import { Conversation, TranscriptTurn } from './types';
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+// Cosine similarity below this doesn't count as a semantic match on its own
+const MIN_SEMANTIC_SCORE = 0.5;
+const SNIPPET_LENGTH = 160;
+const MATCHES_PER_CONVERSATION = 3;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'any', 'can', 'had', 'her', 'was', 'one', 'our',
+  'out', 'has', 'him', 'his', 'how', 'its', 'may', 'who', 'did', 'she', 'too', 'use', 'that', 'with', 'have',
+  'this', 'will', 'your', 'from', 'they', 'been', 'were', 'what', 'when', 'where', 'which', 'about', 'there',
+  'call', 'came',
+]);
+
+export interface SearchMatch {
+  source: 'transcript' | 'summary';
+  turn_index: number | null;
+  role: TranscriptTurn['role'] | null;
+  time_in_call_secs: number | null;
+  snippet: string;
+  score: number;
+}
+
+export interface SearchResult {
+  conversation_id: string;
+  call_summary_title: string | null;
+  agent_name: string;
+  start_time_unix_secs: number;
+  score: number;
+  matches: SearchMatch[];
+}
+
+export interface SearchResponse {
+  query: string;
+  // 'keyword' when no embedding provider is available
+  mode: 'hybrid' | 'keyword';
+  results: SearchResult[];
+}
+
+export interface SearchOptions {
+  limit?: number;
+  llm?: LLMClient | null;
+  // Restrict the search to conversations passing this check
+  filter?: (conversation: Conversation) => boolean;
+}
+
+interface SearchDocument {
+  conversation: Conversation;
+  source: SearchMatch['source'];
+  turn?: TranscriptTurn;
+  turn_index: number | null;
+  text: string;
+  terms: string[];
+}
+
+interface StoredEmbeddings {
+  content_hash: string;
+  model: string;
+  vectors: number[][];
+}
+
+const embeddings = new JsonCollection<StoredEmbeddings>('embeddings');
+
+// Drop a conversation's vectors, e.g. when it is purged
+export async function removeEmbeddings(conversationId: string): Promise<void> {
+  await embeddings.delete(conversationId);
+}
+
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9']+/g) ?? []).filter(term => term.length > 1 && !STOP_WORDS.has(term));
+}
+
+async function loadDocuments(filter?: SearchOptions['filter']): Promise<SearchDocument[]> {
+  const conversations = (await conversationStore.all()).filter(conv => !filter || filter(conv));
+  const allDetails = await conversationStore.allDetails();
+  const summaries = await summaryStore.current(allDetails);
+  const documents: SearchDocument[] = [];
+
+  for (const conversation of conversations) {
+    const summary = summaries[conversation.conversation_id]?.result;
+    const summaryText = [
+      conversation.call_summary_title,
+      conversation.transcript_summary,
+      summary && formatSummaryText(summary),
+    ].filter(Boolean).join('\n\n');
+    if (summaryText) {
+      documents.push({ conversation, source: 'summary', turn_index: null, text: summaryText, terms: tokenize(summaryText) });
+    }
+
+    allDetails[conversation.conversation_id]?.transcript.forEach((turn, index) => {
+      if (turn.message) {
+        documents.push({ conversation, source: 'transcript', turn, turn_index: index, text: turn.message, terms: tokenize(turn.message) });
+      }
+    });
+  }
+
+  return documents;
+}
+
+function bm25Scores(documents: SearchDocument[], queryTerms: string[]): number[] {
+  const averageLength = documents.reduce((total, doc) => total + doc.terms.length, 0) / (documents.length || 1);
+  const documentFrequency = new Map<string, number>();
+  for (const doc of documents) {
+    for (const term of new Set(doc.terms)) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+  }
+
+  return documents.map(doc => queryTerms.reduce((score, term) => {
+    const frequency = doc.terms.filter(docTerm => docTerm === term).length;
+    if (frequency === 0) return score;
+    const df = documentFrequency.get(term) ?? 0;
+    const idf = Math.log(1 + (documents.length - df + 0.5) / (df + 0.5));
+    return score + idf * (frequency * (BM25_K1 + 1)) /
+      (frequency + BM25_K1 * (1 - BM25_B + BM25_B * doc.terms.length / (averageLength || 1)));
+  }, 0));
+}
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+function byConversation(documents: SearchDocument[]): Map<string, SearchDocument[]> {
+  const grouped = new Map<string, SearchDocument[]>();
+  for (const doc of documents) {
+    const id = doc.conversation.conversation_id;
+    grouped.set(id, [...(grouped.get(id) ?? []), doc]);
+  }
+  return grouped;
+}
+
+function contentHash(docs: SearchDocument[]): string {
+  return createHash('sha256').update(JSON.stringify(docs.map(doc => doc.text))).digest('hex');
+}
+
+// Missing, embedded from older text, or from another model
+function isStale(stored: StoredEmbeddings | undefined, docs: SearchDocument[], model: string): boolean {
+  return stored?.content_hash !== contentHash(docs) || stored.model !== model;
+}
+
+/**
+ * Embed every conversation whose indexed text changed since it was last embedded; run by the
+ * job worker. Each conversation is saved as soon as it is done, so progress survives a failure.
+ */
+export async function indexEmbeddings(llm: LLMClient): Promise<{ embedded: number }> {
+  const stored = await embeddings.all();
+  let embedded = 0;
+  for (const [id, docs] of byConversation(await loadDocuments())) {
+    if (!isStale(stored[id], docs, llm.embeddingModel)) continue;
+
+    const vectors = await llm.embed(docs.map(doc => doc.text));
+    // Four decimals is plenty for ranking and keeps the file small
+    await embeddings.put(id, {
+      content_hash: contentHash(docs),
+      model: llm.embeddingModel,
+      vectors: vectors.map(vector => vector.map(value => Math.round(value * 1e4) / 1e4)),
+    });
+    embedded++;
+  }
+  return { embedded };
+}
+
+// Bring the stored vectors up to date in the background; nothing to do without an LLM provider
+export async function queueEmbeddingIndex(): Promise<void> {
+  if (!getLLMClient()) return;
+  await jobStore.enqueue('embeddings', 'embeddings', {});
+}
+
+/**
+ * Stored vectors per document, null for documents of conversations that haven't been embedded
+ * in their current form yet. Never embeds anything itself; stale is set when the job has work.
+ */
+async function storedVectors(model: string, documents: SearchDocument[]): Promise<{ vectors: (number[] | null)[]; stale: boolean }> {
+  const stored = await embeddings.all();
+  const current = new Set<string>();
+  let stale = false;
+  for (const [id, docs] of byConversation(documents)) {
+    if (isStale(stored[id], docs, model)) {
+      stale = true;
+    } else {
+      current.add(id);
+    }
+  }
+
+  const positions = new Map<string, number>();
+  const vectors = documents.map(doc => {
+    const id = doc.conversation.conversation_id;
+    const position = positions.get(id) ?? 0;
+    positions.set(id, position + 1);
+    return current.has(id) ? stored[id].vectors[position] : null;
+  });
+  return { vectors, stale };
+}
+
+function makeSnippet(text: string, queryTerms: string[]): string {
+  const lower = text.toLowerCase();
+  const hit = queryTerms.map(term => lower.indexOf(term)).filter(index => index >= 0).sort((a, b) => a - b)[0];
+  const start = hit === undefined ? 0 : Math.max(0, hit - SNIPPET_LENGTH / 3);
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).trim()}${end < text.length ? '…' : ''}`;
+}
+
+/**
+ * Rank stored conversations against a query using BM25 over transcript turns and summaries,
+ * blended with embedding similarity when an LLM client is given. Only the query is embedded here;
+ * conversations the embeddings job hasn't reached yet are matched by keyword alone.
+ */
+export async function searchConversations(query: string, { limit = 20, llm, filter }: SearchOptions = {}): Promise<SearchResponse> {
+  const queryTerms = [...new Set(tokenize(query))];
+  const documents = await loadDocuments(filter);
+
+  const keyword = bm25Scores(documents, queryTerms);
+  const maxKeyword = Math.max(0, ...keyword);
+
+  // Null entries are documents without a stored vector yet
+  let semantic: (number | null)[] | null = null;
+  if (llm && documents.length > 0) {
+    try {
+      const { vectors, stale } = await storedVectors(llm.embeddingModel, documents);
+      if (stale) {
+        await queueEmbeddingIndex();
+      }
+      const [queryVector] = await llm.embed([query]);
+      semantic = vectors.map(vector => vector && Math.max(0, cosine(queryVector, vector)));
+    } catch (error) {
+      console.error('Error embedding search documents, falling back to keyword search:', error);
+    }
+  }
+
+  const results = new Map<string, SearchResult>();
+  documents.forEach((doc, index) => {
+    const keywordScore = maxKeyword > 0 ? keyword[index] / maxKeyword : 0;
+    const semanticScore = semantic?.[index] ?? null;
+    if (keywordScore === 0 && (semanticScore ?? 0) < MIN_SEMANTIC_SCORE) return;
+
+    const score = semanticScore === null ? keywordScore : (keywordScore + semanticScore) / 2;
+    const { conversation } = doc;
+    const result = results.get(conversation.conversation_id) ?? {
+      conversation_id: conversation.conversation_id,
+      call_summary_title: conversation.call_summary_title,
+      agent_name: conversation.agent_name,
+      start_time_unix_secs: conversation.start_time_unix_secs,
+      score: 0,
+      matches: [],
+    };
+    result.matches.push({
+      source: doc.source,
+      turn_index: doc.turn_index,
+      role: doc.turn?.role ?? null,
+      time_in_call_secs: doc.turn?.time_in_call_secs ?? null,
+      snippet: makeSnippet(doc.text, queryTerms),
+      score,
+    });
+    results.set(conversation.conversation_id, result);
+  });
+
+  // A conversation ranks by its best match, with a little credit for supporting ones
+  const ranked = [...results.values()].map(result => {
+    const matches = result.matches.sort((a, b) => b.score - a.score).slice(0, MATCHES_PER_CONVERSATION);
+    const score = matches[0].score + 0.1 * matches.slice(1).reduce((total, match) => total + match.score, 0);
+    return { ...result, matches, score };
+  });
+  ranked.sort((a, b) => b.score - a.score);
+
+  return { query, mode: semantic ? 'hybrid' : 'keyword', results: ranked.slice(0, limit) };
+}
@@ -0,0 +1,85 @@
+// Signed session tokens. Uses Web Crypto only, so the middleware (edge runtime) can verify them too.
+
+export const ROLES = ['viewer', 'analyst', 'admin'] as const;
+export type Role = typeof ROLES[number];
+
+export const SESSION_COOKIE = 'session';
+export const SESSION_MAX_AGE_SECS = Number(process.env.SESSION_MAX_AGE_SECS) || 7 * 24 * 60 * 60;
+
+export interface Session {
+  email: string;
+  role: Role;
+  // Unix seconds
+  expires_at: number;
+}
+
+const encoder = new TextEncoder();
+
+function toBase64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+async function signingKey(): Promise<CryptoKey> {
+  const secret = process.env.AUTH_SECRET;
+  if (!secret) {
+    throw new Error('AUTH_SECRET not configured');
+  }
+  return crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+}
+
+export function isRole(value: unknown): value is Role {
+  return ROLES.includes(value as Role);
+}
+
+// Roles are ordered: each one can do everything the previous one can
+export function hasRole(session: Pick<Session, 'role'> | null, required: Role): boolean {
+  return !!session && ROLES.indexOf(session.role) >= ROLES.indexOf(required);
+}
+
+export async function createSessionToken(email: string, role: Role): Promise<string> {
+  const session: Session = { email, role, expires_at: Math.floor(Date.now() / 1000) + SESSION_MAX_AGE_SECS };
+  const payload = toBase64Url(encoder.encode(JSON.stringify(session)));
+  const signature = await crypto.subtle.sign('HMAC', await signingKey(), encoder.encode(payload));
+  return `${payload}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+// The session in a token, or null if it is malformed, tampered with or expired
+export async function verifySessionToken(token: string | undefined): Promise<Session | null> {
+  const [payload, signature] = token?.split('.') ?? [];
+  if (!payload || !signature) return null;
+
+  try {
+    const valid = await crypto.subtle.verify('HMAC', await signingKey(), fromBase64Url(signature), encoder.encode(payload));
+    if (!valid) return null;
+
+    const session: Session = JSON.parse(new TextDecoder().decode(fromBase64Url(payload)));
+    if (!isRole(session.role) || session.expires_at < Date.now() / 1000) return null;
+    return session;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Minimum role for an API request. Reading is open to viewers, anything that writes or spends
+ * LLM calls needs an analyst, and destructive, email-sending, trash, audit, follow-up rule and
+ * user-management routes need an admin.
+ */
+export function requiredRole(method: string, pathname: string): Role {
+  if (
+    ['/api/users', '/api/trash', '/api/audit-log', '/api/follow-up-rules'].some(prefix => pathname.startsWith(prefix)) ||
+    pathname === '/api/space-fact-email' ||
+    pathname === '/api/email-digest' ||
+    (method !== 'GET' && pathname.startsWith('/api/outbox')) ||
+    (method === 'DELETE' && /^\/api\/conversations\/[^/]+$/.test(pathname)) ||
+    /^\/api\/conversations\/[^/]+\/restore$/.test(pathname)
+  ) {
+    return 'admin';
+  }
+  return method === 'GET' || method === 'HEAD' ? 'viewer' : 'analyst';
+}
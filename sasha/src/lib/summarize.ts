@@ -0,0 +1,72 @@
+import {
+  chunkTranscript,
+  estimateTranscriptTokens,
+  TRANSCRIPT_TOKEN_BUDGET,
+  TranscriptChunk,
+} from './chunking';
+import { getGenerationConfig, LLMClient } from './llm';
+import { parseSummary, SUMMARY_RESPONSE_SCHEMA, SummaryResult } from './summary';
+import { TranscriptTurn } from './types';
+
+const SUMMARY_FORMAT = `Respond with a JSON object containing:
+- "issue": the main problem, challenge, or concern discussed in the conversation
+- "goal": the primary objective, desired outcome, or what needs to be achieved
+- "nextSteps": a list of the specific actions, decisions, or follow-up items that should happen next
+
+Keep each section concise but actionable, focusing on the most important aspects from the conversation.`;
+
+// Format transcript for better context
+function formatTranscript(turns: TranscriptTurn[]): string {
+  return turns.map(turn => 
+    `${turn.role.toUpperCase()}: ${turn.message}`
+  ).join('\n\n');
+}
+
+function chunkNotesPrompt(chunk: TranscriptChunk, index: number, total: number): string {
+  return `The following is part ${index + 1} of ${total} of a conversation transcript.
+
+TRANSCRIPT (PART ${index + 1}/${total}):
+${formatTranscript(chunk.turns)}
+
+Write concise notes on this part only: problems or concerns raised, goals or desired outcomes mentioned, and any actions, decisions, or follow-ups agreed. Use short bullet points and leave out small talk.`;
+}
+
+/**
+ * Issue / Goal / Next Steps summary of a transcript. Transcripts over the token budget
+ * are summarized map-reduce style: notes per chunk, then one structured summary of the notes.
+ */
+export async function summarizeTranscript(llm: LLMClient, transcript: TranscriptTurn[]): Promise<SummaryResult> {
+  const config = getGenerationConfig('summary');
+
+  if (estimateTranscriptTokens(transcript) <= TRANSCRIPT_TOKEN_BUDGET) {
+    const prompt = `Based on the following conversation transcript, please analyze and structure the key insights into three specific categories. 
+
+TRANSCRIPT:
+${formatTranscript(transcript)}
+
+${SUMMARY_FORMAT}`;
+
+    const { text, truncated } = await llm.generate({ prompt, ...config, responseSchema: SUMMARY_RESPONSE_SCHEMA });
+    return { ...parseSummary(text), truncated };
+  }
+
+  const chunks = chunkTranscript(transcript);
+  const notes: string[] = [];
+  let truncated = false;
+
+  // One call at a time to stay clear of provider rate limits
+  for (const [index, chunk] of chunks.entries()) {
+    const result = await llm.generate({ prompt: chunkNotesPrompt(chunk, index, chunks.length), ...config });
+    notes.push(result.text);
+    truncated ||= result.truncated;
+  }
+
+  const prompt = `The following are notes taken on consecutive parts of one long conversation transcript. Based on these notes, please analyze and structure the key insights of the whole conversation into three specific categories.
+
+${notes.map((note, index) => `NOTES (PART ${index + 1}/${chunks.length}):\n${note}`).join('\n\n')}
+
+${SUMMARY_FORMAT}`;
+
+  const result = await llm.generate({ prompt, ...config, responseSchema: SUMMARY_RESPONSE_SCHEMA });
+  return { ...parseSummary(result.text), chunks: chunks.length, truncated: truncated || result.truncated };
+}
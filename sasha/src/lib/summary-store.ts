@@ -0,0 +1,60 @@
+import { createHash } from 'crypto';
+import { JsonCollection } from './db';
+import { SummaryResult } from './summary';
+import { ConversationDetails, TranscriptTurn } from './types';
+
+export interface StoredSummary {
+  conversation_id: string;
+  transcript_hash: string;
+  result: SummaryResult;
+  generated_at: number;
+}
+
+// Only role and message feed the prompt, so metrics changes don't invalidate a summary
+export function hashTranscript(transcript: Pick<TranscriptTurn, 'role' | 'message'>[]): string {
+  const content = transcript.map(turn => [turn.role, turn.message]);
+  return createHash('sha256').update(JSON.stringify(content)).digest('hex');
+}
+
+/**
+ * Gemini summaries keyed by conversation, valid only for the transcript they were generated from.
+ */
+export interface SummaryStore {
+  get(conversationId: string, transcriptHash: string): Promise<StoredSummary | null>;
+  // Summaries still matching the given transcripts, by conversation ID
+  current(details: Record<string, ConversationDetails>): Promise<Record<string, StoredSummary>>;
+  save(conversationId: string, transcriptHash: string, result: SummaryResult): Promise<StoredSummary>;
+  remove(conversationId: string): Promise<void>;
+}
+
+class JsonSummaryStore implements SummaryStore {
+  private summaries = new JsonCollection<StoredSummary>('summaries');
+
+  async get(conversationId: string, transcriptHash: string): Promise<StoredSummary | null> {
+    const stored = await this.summaries.get(conversationId);
+    // Entries from before structured output carry no result and get regenerated
+    return stored?.result && stored.transcript_hash === transcriptHash ? stored : null;
+  }
+
+  async current(details: Record<string, ConversationDetails>): Promise<Record<string, StoredSummary>> {
+    const all = await this.summaries.all();
+    return Object.fromEntries(Object.entries(all).filter(([id, stored]) =>
+      stored.result && details[id] && stored.transcript_hash === hashTranscript(details[id].transcript)
+    ));
+  }
+
+  save(conversationId: string, transcriptHash: string, result: SummaryResult): Promise<StoredSummary> {
+    return this.summaries.put(conversationId, {
+      conversation_id: conversationId,
+      transcript_hash: transcriptHash,
+      result,
+      generated_at: Math.floor(Date.now() / 1000),
+    });
+  }
+
+  async remove(conversationId: string): Promise<void> {
+    await this.summaries.delete(conversationId);
+  }
+}
+
+export const summaryStore: SummaryStore = new JsonSummaryStore();
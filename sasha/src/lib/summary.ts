@@ -0,0 +1,71 @@
+export interface StructuredSummary {
+  issue: string;
+  goal: string;
+  nextSteps: string[];
+}
+
+export interface SummaryResult {
+  summary: StructuredSummary | null;
+  // Model output as returned, shown when it doesn't validate against the schema
+  raw: string;
+  // Number of transcript chunks when the transcript was summarized map-reduce style
+  chunks?: number;
+  truncated?: boolean;
+}
+
+// JSON Schema for StructuredSummary, passed to the LLM as the response schema
+export const SUMMARY_RESPONSE_SCHEMA = {
+  type: 'object',
+  properties: {
+    issue: {
+      type: 'string',
+      description: 'The main problem, challenge, or concern discussed in the conversation',
+    },
+    goal: {
+      type: 'string',
+      description: 'The primary objective, desired outcome, or what needs to be achieved',
+    },
+    nextSteps: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Specific actions, decisions, or follow-up items that should happen next',
+    },
+  },
+  required: ['issue', 'goal', 'nextSteps'],
+};
+
+export function parseSummary(raw: string): SummaryResult {
+  try {
+    const parsed = JSON.parse(raw);
+    const nextSteps = typeof parsed?.nextSteps === 'string' ? [parsed.nextSteps] : parsed?.nextSteps;
+    if (
+      typeof parsed?.issue === 'string' &&
+      typeof parsed?.goal === 'string' &&
+      Array.isArray(nextSteps) &&
+      nextSteps.every((step: unknown) => typeof step === 'string')
+    ) {
+      return {
+        summary: { issue: parsed.issue.trim(), goal: parsed.goal.trim(), nextSteps: nextSteps.map((step: string) => step.trim()) },
+        raw,
+      };
+    }
+  } catch {
+    // Not JSON, fall through to the raw text
+  }
+  return { summary: null, raw };
+}
+
+// Plain-text rendering for emails and previews
+export function formatSummaryText(result: SummaryResult): string {
+  if (!result.summary) {
+    return result.raw;
+  }
+
+  const { issue, goal, nextSteps } = result.summary;
+  return `Issue: ${issue}
+
+Goal: ${goal}
+
+Next Steps:
+${nextSteps.map(step => `- ${step}`).join('\n')}`;
+}
@@ -0,0 +1,79 @@
+import { auditLog } from './audit-log';
+import { chatStore } from './chat-store';
+import { conversationStore, TrashEntry } from './conversation-store';
+import { deleteConversation, ElevenLabsRequestError } from './elevenlabs';
+import { removeEmbeddings } from './search';
+import { summaryStore } from './summary-store';
+
+const TRASH_RETENTION_SECS = Number(process.env.TRASH_RETENTION_SECS) || 30 * 24 * 60 * 60;
+const PURGE_INTERVAL_SECS = 60 * 60;
+
+let lastPurgeCheck = 0;
+
+/**
+ * Hide a conversation from every view. It is only deleted in ElevenLabs once the retention window
+ * has passed, so it can be restored until then.
+ */
+export async function trashConversation(id: string, actor: string): Promise<TrashEntry | null> {
+  if (!(await conversationStore.get(id))) return null;
+
+  const deletedAt = Math.floor(Date.now() / 1000);
+  const entry: TrashEntry = { deleted_at: deletedAt, deleted_by: actor, purge_after: deletedAt + TRASH_RETENTION_SECS };
+  await conversationStore.trash(id, entry);
+  await auditLog.record({ action: 'conversation.delete', actor, target_id: id, details: { purge_after: entry.purge_after } });
+  return entry;
+}
+
+export async function restoreConversation(id: string, actor: string): Promise<boolean> {
+  if (!(await conversationStore.restore(id))) return false;
+
+  await auditLog.record({ action: 'conversation.restore', actor, target_id: id });
+  return true;
+}
+
+/**
+ * Hard-delete everything whose retention window has passed, upstream first. One conversation
+ * failing doesn't hold up the rest; it is retried on the next purge.
+ */
+export async function purgeExpiredTrash(): Promise<number> {
+  const now = Date.now() / 1000;
+  let purged = 0;
+  for (const conv of await conversationStore.listTrash()) {
+    if (conv.purge_after > now) continue;
+
+    try {
+      await deleteConversation(conv.conversation_id);
+    } catch (error) {
+      // Already gone upstream, e.g. deleted in the ElevenLabs dashboard
+      if (!(error instanceof ElevenLabsRequestError && error.status === 404)) {
+        console.error(`Error purging conversation ${conv.conversation_id}:`, error);
+        continue;
+      }
+    }
+    // Summaries, chats and embeddings are derived from the transcript, so they go too
+    await conversationStore.remove(conv.conversation_id);
+    await summaryStore.remove(conv.conversation_id);
+    await chatStore.clear(conv.conversation_id);
+    await removeEmbeddings(conv.conversation_id);
+    await auditLog.record({
+      action: 'conversation.purge',
+      actor: 'system',
+      target_id: conv.conversation_id,
+      details: { deleted_by: conv.deleted_by, deleted_at: conv.deleted_at },
+    });
+    purged++;
+  }
+  return purged;
+}
+
+// At most once an hour per server process; failures are retried on the next check
+export async function purgeIfDue(): Promise<void> {
+  if (Date.now() / 1000 - lastPurgeCheck < PURGE_INTERVAL_SECS) return;
+  lastPurgeCheck = Date.now() / 1000;
+
+  try {
+    await purgeExpiredTrash();
+  } catch (error) {
+    console.error('Error purging trashed conversations:', error);
+  }
+}
@@ -0,0 +1,59 @@
+import { SummaryResult } from './summary';
+
+export interface TranscriptTurn {
+  role: 'agent' | 'user';
+  message: string;
+  time_in_call_secs: number;
+  conversation_turn_metrics?: Record<string, unknown>;
+}
+
+export interface ConversationAnalysis {
+  call_successful: string;
+  transcript_summary: string | null;
+  call_summary_title?: string | null;
+  gemini_summary?: SummaryResult | null;
+  evaluation_criteria_results?: Record<string, unknown>;
+}
+
+export interface ConversationMetadata {
+  start_time_unix_secs: number;
+  call_duration_secs: number;
+  cost?: number;
+}
+
+export interface ConversationDetails {
+  agent_id: string;
+  conversation_id: string;
+  status: string;
+  transcript: TranscriptTurn[];
+  metadata: ConversationMetadata;
+  analysis: ConversationAnalysis;
+  tool_calls?: Record<string, unknown>[];
+  // Dynamic variables the call was started with, e.g. participant_email
+  conversation_initiation_client_data?: {
+    dynamic_variables?: Record<string, unknown>;
+  };
+}
+
+export interface Conversation {
+  agent_id: string;
+  agent_name: string;
+  conversation_id: string;
+  start_time_unix_secs: number;
+  call_duration_secs: number;
+  message_count: number;
+  status: string;
+  call_successful: string;
+  transcript_summary: string | null;
+  call_summary_title: string | null;
+  gemini_summary?: SummaryResult | null;
+  participant_name?: string | null;
+  // Local labels; kept when the sync updates the conversation
+  tags?: string[];
+}
+
+export interface ConversationsResponse {
+  conversations: Conversation[];
+  next_cursor: string | null;
+  has_more: boolean;
+}
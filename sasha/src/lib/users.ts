@@ -0,0 +1,130 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { JsonCollection } from './db';
+import { Role } from './session';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+const KEY_LENGTH = 64;
+
+export interface User {
+  email: string;
+  name: string | null;
+  role: Role;
+  created_at: number;
+}
+
+interface StoredUser extends User {
+  // scrypt$<salt hex>$<key hex>
+  password_hash: string;
+}
+
+/**
+ * Dashboard accounts, keyed by lower-cased email.
+ */
+export interface UserStore {
+  list(): Promise<User[]>;
+  get(email: string): Promise<User | null>;
+  create(user: { email: string; name?: string | null; role: Role; password: string }): Promise<User>;
+  update(email: string, changes: { name?: string | null; role?: Role; password?: string }): Promise<User | null>;
+  remove(email: string): Promise<boolean>;
+  // The user if the password matches, otherwise null
+  verifyPassword(email: string, password: string): Promise<User | null>;
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const key = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString('hex')}$${key.toString('hex')}`;
+}
+
+async function passwordMatches(password: string, hash: string): Promise<boolean> {
+  const [scheme, salt, key] = hash.split('$');
+  if (scheme !== 'scrypt' || !salt || !key) return false;
+  const expected = Buffer.from(key, 'hex');
+  const actual = await scryptAsync(password, Buffer.from(salt, 'hex'), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+function toUser({ email, name, role, created_at }: StoredUser): User {
+  return { email, name, role, created_at };
+}
+
+class JsonUserStore implements UserStore {
+  private users = new JsonCollection<StoredUser>('users');
+
+  async list(): Promise<User[]> {
+    return (await this.users.values()).map(toUser).sort((a, b) => a.email.localeCompare(b.email));
+  }
+
+  async get(email: string): Promise<User | null> {
+    const user = await this.users.get(normalizeEmail(email));
+    return user && toUser(user);
+  }
+
+  async create({ email, name = null, role, password }: { email: string; name?: string | null; role: Role; password: string }): Promise<User> {
+    const id = normalizeEmail(email);
+    const user: StoredUser = {
+      email: id,
+      name,
+      role,
+      created_at: Math.floor(Date.now() / 1000),
+      password_hash: await hashPassword(password),
+    };
+    await this.users.mutate(records => {
+      if (records[id]) {
+        throw new Error(`User ${id} already exists`);
+      }
+      records[id] = user;
+    });
+    return toUser(user);
+  }
+
+  async update(email: string, { password, ...changes }: { name?: string | null; role?: Role; password?: string }): Promise<User | null> {
+    const id = normalizeEmail(email);
+    const passwordHash = password ? await hashPassword(password) : undefined;
+    const updated = await this.users.mutate(records => {
+      if (!records[id]) return null;
+      records[id] = {
+        ...records[id],
+        ...(changes.name !== undefined && { name: changes.name }),
+        ...(changes.role && { role: changes.role }),
+        ...(passwordHash && { password_hash: passwordHash }),
+      };
+      return records[id];
+    });
+    return updated && toUser(updated);
+  }
+
+  remove(email: string): Promise<boolean> {
+    return this.users.delete(normalizeEmail(email));
+  }
+
+  async verifyPassword(email: string, password: string): Promise<User | null> {
+    const stored = await this.users.get(normalizeEmail(email));
+    if (!stored || !(await passwordMatches(password, stored.password_hash))) return null;
+    return toUser(stored);
+  }
+}
+
+export const userStore: UserStore = new JsonUserStore();
+
+/**
+ * Create the first admin from ADMIN_EMAIL / ADMIN_PASSWORD while the user table is empty,
+ * so a fresh deployment can be logged into.
+ */
+export async function ensureBootstrapAdmin(): Promise<void> {
+  const email = process.env.ADMIN_EMAIL;
+  const password = process.env.ADMIN_PASSWORD;
+  if (!email || !password || (await userStore.list()).length > 0) return;
+
+  try {
+    await userStore.create({ email, role: 'admin', password });
+  } catch (error) {
+    // Another request created it first
+    if (!(await userStore.get(email))) throw error;
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { hasRole, requiredRole, SESSION_COOKIE, verifySessionToken } from '@/lib/session';
+
+// Reachable without signing in; webhooks authenticate with their own signatures
+const PUBLIC_PATHS = ['/login', '/api/auth/login', '/api/auth/logout', '/api/webhooks/elevenlabs', '/api/webhooks/mailgun'];
+
+/**
+ * First line of access control: every page and API route needs a valid session, and API routes
+ * the role from requiredRole. Route handlers check again against the current user table.
+ */
+export async function middleware(request: NextRequest) {
+  const { pathname } = request.nextUrl;
+  if (PUBLIC_PATHS.includes(pathname)) {
+    return NextResponse.next();
+  }
+
+  const session = await verifySessionToken(request.cookies.get(SESSION_COOKIE)?.value);
+  const isApi = pathname.startsWith('/api/');
+
+  if (!session) {
+    if (isApi) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+    const loginUrl = new URL('/login', request.url);
+    loginUrl.searchParams.set('next', `${pathname}${request.nextUrl.search}`);
+    return NextResponse.redirect(loginUrl);
+  }
+
+  if (isApi) {
+    const role = requiredRole(request.method, pathname);
+    if (!hasRole(session, role)) {
+      return NextResponse.json({ error: `Requires ${role} role` }, { status: 403 });
+    }
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  // Everything except build output and static files from public/
+  matcher: ['/((?!_next/static|_next/image|favicon.ico|.*\\.(?:svg|png|jpg|jpeg|gif|webp)$).*)'],
+};